@@ -0,0 +1,285 @@
+import crypto from "crypto";
+import Database from "better-sqlite3";
+import { VocabRow } from "./db";
+
+/**
+ * 生词导出为 Anki 可导入的格式：TSV 文本，或 .apkg 里的 collection.anki2（旧版 schema 11，各版本 Anki 都能导入）。
+ * 字段映射：每个 Anki 字段是一段模板，{expression}、{glossary} 等占位符替换成卡片内容（已转义为 HTML）。
+ */
+
+export type AnkiField = { name: string; template: string };
+export type AnkiExportOptions = {
+  deck: string;
+  fields: AnkiField[];
+  /** 阅读器的地址（如 http://localhost:5173），用于 {link}；为空时 {link} 为空 */
+  origin?: string;
+};
+
+export const VOCAB_PLACEHOLDERS = [
+  "expression",
+  "reading",
+  "glossary",
+  "sentence",
+  "note",
+  "book",
+  "chapter",
+  "link",
+] as const;
+type Placeholder = (typeof VOCAB_PLACEHOLDERS)[number];
+
+export const DEFAULT_ANKI_FIELDS: AnkiField[] = [
+  { name: "Expression", template: "{expression}" },
+  { name: "Reading", template: "{reading}" },
+  { name: "Meaning", template: "{glossary}" },
+  { name: "Sentence", template: "{sentence}" },
+  { name: "Source", template: "{book} · {chapter}" },
+];
+
+export const DEFAULT_ANKI_DECK = "Reader Vocabulary";
+
+/** 校验前端传来的字段映射；字段名不能重复，也不能含 Anki 模板语法用到的字符 */
+export function parseFieldMapping(raw: unknown): AnkiField[] | null {
+  if (!Array.isArray(raw) || !raw.length) return null;
+  const fields: AnkiField[] = [];
+  for (const f of raw) {
+    const name = typeof f?.name === "string" ? f.name.trim() : "";
+    if (!name || /[{}:"#^/]/.test(name) || typeof f.template !== "string") return null;
+    if (fields.some((x) => x.name.toLowerCase() === name.toLowerCase())) return null;
+    fields.push({ name, template: f.template });
+  }
+  return fields;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[<>&"]/g, (c) => `&#${c.charCodeAt(0)};`).replace(/\r?\n/g, "<br>");
+}
+
+function stripHtml(s: string) {
+  return s
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .trim();
+}
+
+export function readerLink(v: VocabRow, origin: string) {
+  const qs = new URLSearchParams({ id: v.bookId, href: v.href });
+  if (v.startOffset != null) qs.set("offset", String(v.startOffset));
+  if (v.startOffset != null && v.endOffset != null) qs.set("length", String(v.endOffset - v.startOffset));
+  return `${origin.replace(/\/+$/, "")}/reader?${qs}`;
+}
+
+function renderFields(v: VocabRow, opts: AnkiExportOptions) {
+  const values: Record<Placeholder, string> = {
+    expression: escapeHtml(v.expression),
+    reading: escapeHtml(v.reading),
+    glossary: escapeHtml(v.glossary),
+    sentence: escapeHtml(v.sentence),
+    note: escapeHtml(v.note),
+    book: escapeHtml(v.bookTitle),
+    chapter: escapeHtml(v.chapterTitle ?? ""),
+    link: opts.origin ? escapeHtml(readerLink(v, opts.origin)) : "",
+  };
+  return opts.fields.map((f) =>
+    f.template
+      .replace(/\{(\w+)\}/g, (m, key: string) => (key in values ? values[key as Placeholder] : m))
+      // TSV 和 Anki 的字段分隔符都不能出现在字段里
+      .replace(/[\t\x1f]/g, " ")
+      .replace(/\r?\n/g, "<br>")
+  );
+}
+
+function ankiTags(v: VocabRow) {
+  return v.tags.split(/\s+/).filter(Boolean).join(" ");
+}
+
+/** Anki 2.1.55+ 的文本导入会读开头的 #key:value 头；旧版本把它们当作注释行 */
+export function toAnkiTsv(cards: VocabRow[], opts: AnkiExportOptions) {
+  const lines = [
+    "#separator:tab",
+    "#html:true",
+    `#deck:${opts.deck}`,
+    `#columns:${[...opts.fields.map((f) => f.name), "Tags"].join("\t")}`,
+    `#tags column:${opts.fields.length + 1}`,
+  ];
+  for (const v of cards) lines.push([...renderFields(v, opts), ankiTags(v)].join("\t"));
+  return lines.join("\n") + "\n";
+}
+
+const APKG_SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const CARD_CSS = `.card { font-family: "Noto Serif CJK JP", serif; font-size: 22px; text-align: center; color: #1f1b16; background: #fffdf9; }`;
+
+function sha1(s: string) {
+  return crypto.createHash("sha1").update(s, "utf8").digest("hex");
+}
+
+/** 由名字派生的稳定 id：同一牌组 / 同一套字段重复导出时，Anki 会合并而不是新建 */
+function stableId(kind: string, key: string) {
+  return 1_400_000_000_000 + parseInt(sha1(`${kind}:${key}`).slice(0, 8), 16);
+}
+
+function noteGuid(v: VocabRow) {
+  return crypto.createHash("sha1").update(`scrollable-epub-reader:vocab:${v.id}`).digest("base64").slice(0, 10);
+}
+
+/** 写出 collection.anki2（SQLite），由调用方和 media 清单一起打包成 .apkg */
+export function writeAnkiCollection(filePath: string, cards: VocabRow[], opts: AnkiExportOptions) {
+  const now = Date.now();
+  const sec = Math.floor(now / 1000);
+  const names = opts.fields.map((f) => f.name);
+  const mid = stableId("model", names.join("\x1f"));
+  const did = stableId("deck", opts.deck);
+  const [front, ...back] = names;
+
+  const model = {
+    id: mid,
+    name: `Reader Vocabulary (${names.join(", ")})`,
+    type: 0,
+    mod: sec,
+    usn: -1,
+    sortf: 0,
+    did,
+    tmpls: [
+      {
+        name: "Card 1",
+        ord: 0,
+        qfmt: `{{${front}}}`,
+        afmt: ["{{FrontSide}}", '<hr id="answer">', ...back.map((n) => `{{#${n}}}<div>{{${n}}}</div>{{/${n}}}`)].join(
+          "\n"
+        ),
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+    flds: names.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: "",
+    latexPost: "",
+    tags: [],
+    vers: [],
+    req: [[0, "any", [0]]],
+  };
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    mod: sec,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    desc: "",
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  });
+  const dconf = {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: true },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+  };
+  const conf = {
+    activeDecks: [1],
+    curDeck: 1,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: null,
+    nextPos: cards.length + 1,
+    sortType: "noteFld",
+    sortBackwards: false,
+    addToCur: true,
+  };
+
+  const db = new Database(filePath);
+  try {
+    db.exec(APKG_SCHEMA);
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
+         VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')`
+      ).run(
+        sec,
+        now,
+        now,
+        JSON.stringify(conf),
+        JSON.stringify({ [mid]: model }),
+        JSON.stringify({ 1: deck(1, "Default"), [did]: deck(did, opts.deck) }),
+        JSON.stringify({ 1: dconf })
+      );
+      const insertNote = db.prepare(
+        `INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
+         VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')`
+      );
+      const insertCard = db.prepare(
+        `INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data)
+         VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')`
+      );
+      cards.forEach((v, i) => {
+        const flds = renderFields(v, opts);
+        const sortField = stripHtml(flds[0] ?? "");
+        const tags = ankiTags(v);
+        const id = now + i;
+        insertNote.run(
+          id,
+          noteGuid(v),
+          mid,
+          sec,
+          tags ? ` ${tags} ` : "",
+          flds.join("\x1f"),
+          sortField,
+          parseInt(sha1(sortField).slice(0, 8), 16)
+        );
+        insertCard.run(id, id, did, sec, i + 1);
+      });
+    })();
+  } finally {
+    db.close();
+  }
+}
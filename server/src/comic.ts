@@ -0,0 +1,143 @@
+import path from "path";
+import fs from "fs/promises";
+import { XMLParser } from "fast-xml-parser";
+import type { BookManifest, BookMetadata, Creator, TocEntry } from "./epub";
+
+// 图片压缩包（.cbz / .zip 的扫描漫画）：没有 OPF，按文件名自然排序的图片就是各页。
+// 每张图生成一个只放这张图的 XHTML 页，整本当作从右往左翻的固定版式书，
+// 阅读器、进度、书签都和 EPUB 走同一套。
+
+const IMAGE_RE = /\.(jpe?g|png|gif|webp|avif|bmp)$/i;
+/** 生成的页面放在书目录下的这个子目录里 */
+const PAGES_DIR = "reader-pages";
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+async function listFiles(rootAbs: string, dir = ""): Promise<string[]> {
+  const out: string[] = [];
+  for (const e of await fs.readdir(path.join(rootAbs, dir), { withFileTypes: true })) {
+    // 隐藏文件、macOS 打包带的 __MACOSX
+    if (e.name.startsWith(".") || e.name === "__MACOSX") continue;
+    const rel = dir ? `${dir}/${e.name}` : e.name;
+    if (e.isDirectory()) out.push(...(await listFiles(rootAbs, rel)));
+    else if (e.isFile()) out.push(rel);
+  }
+  return out;
+}
+
+/** 解包后的目录是图片压缩包时返回自然排序（page2 在 page10 前）的图片路径；是 EPUB（有 container.xml 或 OPF）返回 null */
+export async function listComicImages(rootAbs: string): Promise<{ images: string[]; files: string[] } | null> {
+  const files = await listFiles(rootAbs);
+  if (files.some((f) => f === "META-INF/container.xml" || f.toLowerCase().endsWith(".opf"))) return null;
+  const images = files.filter((f) => IMAGE_RE.test(f)).sort(collator.compare);
+  return images.length ? { images, files } : null;
+}
+
+type ComicInfo = Record<string, string>;
+
+/** ComicInfo.xml（ComicRack 格式）：所有字段按字符串读出 */
+async function readComicInfo(rootAbs: string, files: string[]): Promise<ComicInfo> {
+  const rel = files.find((f) => path.posix.basename(f).toLowerCase() === "comicinfo.xml");
+  if (!rel) return {};
+  try {
+    const parser = new XMLParser({ parseTagValue: false });
+    const root = parser.parse(await fs.readFile(path.join(rootAbs, rel), "utf8"))?.ComicInfo;
+    const info: ComicInfo = {};
+    for (const [k, v] of Object.entries(root ?? {})) {
+      if (typeof v === "string" && v.trim()) info[k] = v.trim();
+    }
+    return info;
+  } catch {
+    return {};
+  }
+}
+
+/** ComicInfo 的人员字段 → MARC relator 角色 */
+const CREATOR_ROLES: [string, string][] = [
+  ["Writer", "aut"],
+  ["Penciller", "art"],
+  ["Inker", "art"],
+  ["Colorist", "clr"],
+  ["CoverArtist", "cov"],
+  ["Editor", "edt"],
+  ["Translator", "trl"],
+];
+
+const splitList = (s?: string) => (s ?? "").split(",").map((x) => x.trim()).filter(Boolean);
+
+function comicMetadata(info: ComicInfo): BookMetadata {
+  const creators: Creator[] = [];
+  for (const [field, role] of CREATOR_ROLES) {
+    for (const name of splitList(info[field])) {
+      if (!creators.some((c) => c.name === name && c.role === role)) creators.push({ name, role });
+    }
+  }
+  const pad = (s?: string) => s?.padStart(2, "0");
+  const date = info.Year ? [info.Year, pad(info.Month), info.Month ? pad(info.Day) : undefined].filter(Boolean).join("-") : undefined;
+  const seriesIndex = Number(info.Number);
+  return {
+    creators,
+    language: info.LanguageISO,
+    publisher: info.Publisher,
+    date,
+    description: info.Summary,
+    subjects: [...new Set([...splitList(info.Genre), ...splitList(info.Tags)])],
+    identifier: info.GTIN,
+    series: info.Series,
+    seriesIndex: info.Series && info.Number && Number.isFinite(seriesIndex) ? seriesIndex : undefined,
+  };
+}
+
+function pageXhtml(n: number, imageRel: string) {
+  const src = `../${imageRel.split("/").map(encodeURIComponent).join("/")}`;
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>${n}</title></head>
+<body><img src="${src}" alt="" style="display:block"/></body></html>
+`;
+}
+
+/**
+ * 给图片压缩包生成页面和 manifest。标题依次取 ComicInfo 的 Title、Series + Number、fallbackTitle（上传的文件名）；
+ * 第一张图是封面并单独成页；图片分在几个子目录里时每个子目录是一章。
+ */
+export async function buildComicManifest(
+  rootAbs: string,
+  { images, files }: { images: string[]; files: string[] },
+  fallbackTitle?: string
+): Promise<BookManifest> {
+  const info = await readComicInfo(rootAbs, files);
+  const title =
+    info.Title ?? (info.Series ? [info.Series, info.Number].filter(Boolean).join(" ") : undefined) ?? fallbackTitle ?? "Untitled";
+
+  await fs.mkdir(path.join(rootAbs, PAGES_DIR), { recursive: true });
+  const spine: string[] = [];
+  for (const [i, image] of images.entries()) {
+    const href = `${PAGES_DIR}/${String(i + 1).padStart(4, "0")}.xhtml`;
+    await fs.writeFile(path.join(rootAbs, href), pageXhtml(i + 1, image), "utf8");
+    spine.push(href);
+  }
+
+  const chapters: TocEntry[] = [];
+  let lastDir: string | null = null;
+  images.forEach((image, i) => {
+    const dir = path.posix.dirname(image);
+    if (dir === lastDir) return;
+    lastDir = dir;
+    chapters.push({ title: dir === "." ? title : path.posix.basename(dir), href: spine[i]!, depth: 0, parent: null });
+  });
+
+  return {
+    title,
+    metadata: comicMetadata(info),
+    opfPath: "",
+    spine,
+    chapters,
+    coverHref: images[0],
+    format: "comic",
+    fixedLayout: true,
+    // 没写 Manga: No 的都按日漫从右往左翻
+    pageDirection: info.Manga === "No" ? "ltr" : "rtl",
+    spineLayout: spine.map((_, i) => (i === 0 ? { fixed: true, spread: "center" } : { fixed: true })),
+  };
+}
@@ -1,7 +1,10 @@
 import path from "path";
 import Database from "better-sqlite3";
+import { DictIndex, DictTermMatch, DictTermRow } from "./dict";
+import { CustomTheme, ReaderSettingsPatch } from "./settings";
 
-export type ChapterRow = { title: string; href: string };
+/** 目录项：depth/parent 保留层级，parent 是父项的 idx */
+export type ChapterRow = { title: string; href: string; depth?: number; parent?: number | null; playOrder?: number | null };
 export type BookRow = {
   id: string;
   title: string;
@@ -9,8 +12,94 @@ export type BookRow = {
   createdAt: number;
   coverHref?: string | null;
   lastOpenedAt?: number | null;
+  /** 主要作者（显示用）及其 file-as（排序用） */
+  author?: string | null;
+  authorSort?: string | null;
+  language?: string | null;
+  publisher?: string | null;
+  pubDate?: string | null;
+  description?: string | null;
+  identifier?: string | null;
+  series?: string | null;
+  seriesIndex?: number | null;
+  /** 原始 EPUB 文件的 sha256，用于识别重复导入 */
+  contentHash?: string | null;
 };
-export type ProgressRow = { bookId: string; href: string; scrollX: number; scrollY: number; updatedAt: number };
+export type CreatorRow = { name: string; role?: string | null; fileAs?: string | null };
+export type BookMetaRows = { creators: CreatorRow[]; subjects: string[] };
+export type BookSort = "title" | "author" | "series" | "opened" | "added";
+export type BookQuery = {
+  q?: string;
+  sort?: BookSort;
+  author?: string;
+  language?: string;
+  subject?: string;
+  collection?: number;
+  tag?: string;
+};
+export type CollectionRow = { id: number; name: string; createdAt: number; bookCount: number };
+export type BookListItem = {
+  id: string;
+  title: string;
+  createdAt: number;
+  chapterCount: number;
+  coverHref?: string | null;
+  lastOpenedAt?: number | null;
+  author: string | null;
+  language: string | null;
+  publisher: string | null;
+  pubDate: string | null;
+  series: string | null;
+  seriesIndex: number | null;
+  subjects: string[];
+  tags: string[];
+  collectionIds: number[];
+  /** 全书进度；没读过的书为 null */
+  bookProgression: number | null;
+  progressUpdatedAt: number | null;
+};
+
+const BOOK_META_COLUMNS = [
+  "author TEXT",
+  "authorSort TEXT",
+  "language TEXT",
+  "publisher TEXT",
+  "pubDate TEXT",
+  "description TEXT",
+  "identifier TEXT",
+  "series TEXT",
+  "seriesIndex REAL",
+  "contentHash TEXT",
+];
+
+const SORT_SQL: Record<BookSort, string> = {
+  title: "b.title COLLATE NOCASE ASC",
+  author:
+    "COALESCE(b.authorSort, b.author) IS NULL, COALESCE(b.authorSort, b.author) COLLATE NOCASE ASC, b.title COLLATE NOCASE ASC",
+  series: "b.series IS NULL, b.series COLLATE NOCASE ASC, b.seriesIndex ASC, b.title COLLATE NOCASE ASC",
+  opened: "b.lastOpenedAt IS NULL, b.lastOpenedAt DESC",
+  added: "b.createdAt DESC",
+};
+
+// GROUP_CONCAT 的分隔符（unit separator），主题里不会出现
+const LIST_SEP = "\x1f";
+/**
+ * 与排版无关的阅读位置：章节纯文本中第一个可见字符的偏移 + 章内进度（0..1）。
+ * scrollX/scrollY 仍然保存，旧数据没有定位信息时作为兜底。
+ */
+export type Locator = { textOffset?: number | null; progression?: number | null };
+export type ProgressRow = {
+  bookId: string;
+  href: string;
+  scrollX: number;
+  scrollY: number;
+  updatedAt: number;
+  /** 全书进度 0..1（按字数折算；书的字数未知时为 null） */
+  bookProgression?: number | null;
+  /** 累计计入阅读速度的字数和时间 */
+  readChars?: number;
+  readMs?: number;
+} & Locator;
 export type BookmarkRow = {
   id: number;
   bookId: string;
@@ -19,7 +108,139 @@ export type BookmarkRow = {
   scrollY: number;
   title: string;
   createdAt: number;
+} & Locator;
+export type HighlightRow = {
+  id: number;
+  bookId: string;
+  href: string;
+  /** 文本锚点：章节纯文本中的字符偏移 + 引文及前后文，偏移失效时用引文重新定位 */
+  startOffset: number;
+  endOffset: number;
+  text: string;
+  prefix: string;
+  suffix: string;
+  color: string;
+  note: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+export type BookTextRow = { idx: number; href: string; text: string };
+/** priority 越小越靠前 */
+export type DictionaryRow = {
+  id: number;
+  title: string;
+  revision: string;
+  priority: number;
+  enabled: boolean;
+  termCount: number;
+  importedAt: number;
+};
+/**
+ * 生词卡片。bookTitle / chapterTitle 在保存时记下，删书后卡片仍保留（只是跳不回原文）；
+ * startOffset / endOffset 是词在章节纯文本中的位置，用于跳回阅读器。
+ */
+export type VocabRow = {
+  id: number;
+  bookId: string;
+  bookTitle: string;
+  href: string;
+  chapterTitle: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  expression: string;
+  reading: string;
+  /** 释义，多条用换行分隔 */
+  glossary: string;
+  sentence: string;
+  note: string;
+  /** 空格分隔（同 Anki） */
+  tags: string;
+  createdAt: number;
+  updatedAt: number;
+};
+export type VocabPatch = Partial<Pick<VocabRow, "expression" | "reading" | "glossary" | "sentence" | "note" | "tags">>;
+export const VOCAB_TEXT_FIELDS = ["expression", "reading", "glossary", "sentence", "note", "tags"] as const;
+/**
+ * 一次阅读（打开阅读器到离开或长时间无操作）。bookId 不设外键：删掉书后统计和读完记录仍然保留。
+ * clientId 由阅读器生成，阅读过程中会反复上报同一个会话，按 clientId 覆盖。
+ */
+export type SessionRow = {
+  id: number;
+  clientId: string;
+  bookId: string;
+  bookTitle: string;
+  /** 会话结束时所在的章节 */
+  href: string;
+  chapterTitle: string | null;
+  startedAt: number;
+  endedAt: number;
+  /** 扣除闲置后的阅读时间 */
+  activeMs: number;
+  /** 前进的字数 */
+  chars: number;
+  /** 会话开始 / 结束时的全书进度 0..1 */
+  startProgression: number | null;
+  endProgression: number | null;
+};
+export type StatsDay = { day: string; activeMs: number; chars: number; sessions: number };
+export type StatsBook = {
+  bookId: string;
+  bookTitle: string;
+  activeMs: number;
+  chars: number;
+  sessions: number;
+  lastReadAt: number;
+  finishedAt: number | null;
 };
+/** 会话结束时全书进度达到这个值即算读完 */
+export const FINISHED_PROGRESSION = 0.99;
+export type SearchHit = {
+  bookId: string;
+  bookTitle: string;
+  href: string;
+  chapterTitle: string | null;
+  snippet: string;
+  /** 命中位置：章节纯文本中的字符偏移，以及同一章内第几次出现（从 0 开始） */
+  offset: number;
+  occurrence: number;
+};
+
+/** 备份格式版本；结构有不兼容变化时递增 */
+export const BACKUP_VERSION = 1;
+export type BookBackup = {
+  book: BookRow;
+  creators: CreatorRow[];
+  subjects: string[];
+  chapters: ChapterRow[];
+  tags: string[];
+  /** 所属书架（按名称，恢复时按名称合并） */
+  collections: string[];
+  progress: Omit<ProgressRow, "bookId"> | null;
+  bookmarks: Omit<BookmarkRow, "id" | "bookId">[];
+  highlights: Omit<HighlightRow, "id" | "bookId">[];
+  /** 本书的阅读设置覆盖项（旧备份没有） */
+  settings?: ReaderSettingsPatch;
+};
+export type LibraryBackup = {
+  version: number;
+  exportedAt: number;
+  collections: { name: string; createdAt: number }[];
+  books: BookBackup[];
+  /** 全局阅读设置（旧备份没有） */
+  settings?: ReaderSettingsPatch;
+  /** 自定义配色（旧备份没有） */
+  themes?: CustomTheme[];
+};
+
+const PROGRESS_DEFAULTS = { textOffset: null, progression: null, bookProgression: null, readChars: 0, readMs: 0 };
+
+const SNIPPET_RADIUS = 40;
+
+function makeSnippet(text: string, at: number, len: number) {
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + len + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+}
 
 export function initDb(dataDir: string) {
   const dbPath = path.join(dataDir, "books.db");
@@ -36,6 +257,38 @@ export function initDb(dataDir: string) {
       lastOpenedAt INTEGER,
       createdAt INTEGER NOT NULL
     );
+    CREATE TABLE IF NOT EXISTS book_creators (
+      bookId TEXT NOT NULL,
+      idx INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      role TEXT,
+      fileAs TEXT,
+      FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS book_subjects (
+      bookId TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS collections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      createdAt INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS collection_books (
+      collectionId INTEGER NOT NULL,
+      bookId TEXT NOT NULL,
+      addedAt INTEGER NOT NULL,
+      PRIMARY KEY(collectionId, bookId),
+      FOREIGN KEY(collectionId) REFERENCES collections(id) ON DELETE CASCADE,
+      FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS book_tags (
+      bookId TEXT NOT NULL,
+      tag TEXT NOT NULL,
+      PRIMARY KEY(bookId, tag),
+      FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
+    );
     CREATE TABLE IF NOT EXISTS chapters (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       bookId TEXT NOT NULL,
@@ -62,8 +315,104 @@ export function initDb(dataDir: string) {
       createdAt INTEGER NOT NULL,
       FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
     );
+    CREATE TABLE IF NOT EXISTS highlights (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bookId TEXT NOT NULL,
+      href TEXT NOT NULL,
+      startOffset INTEGER NOT NULL,
+      endOffset INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      prefix TEXT NOT NULL DEFAULT '',
+      suffix TEXT NOT NULL DEFAULT '',
+      color TEXT NOT NULL,
+      note TEXT,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
+    );
+    CREATE VIRTUAL TABLE IF NOT EXISTS book_text USING fts5(
+      bookId UNINDEXED,
+      idx UNINDEXED,
+      href UNINDEXED,
+      text,
+      tokenize = 'trigram'
+    );
+    CREATE TABLE IF NOT EXISTS dictionaries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      revision TEXT NOT NULL DEFAULT '',
+      priority INTEGER NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      termCount INTEGER NOT NULL DEFAULT 0,
+      importedAt INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS dict_terms (
+      dictId INTEGER NOT NULL,
+      expression TEXT NOT NULL,
+      reading TEXT NOT NULL,
+      definitionTags TEXT NOT NULL DEFAULT '',
+      rules TEXT NOT NULL DEFAULT '',
+      score INTEGER NOT NULL DEFAULT 0,
+      glossary TEXT NOT NULL,
+      sequence INTEGER,
+      termTags TEXT NOT NULL DEFAULT '',
+      FOREIGN KEY(dictId) REFERENCES dictionaries(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS app_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS book_settings (
+      bookId TEXT PRIMARY KEY,
+      settings TEXT NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY(bookId) REFERENCES books(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS vocab (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bookId TEXT NOT NULL,
+      bookTitle TEXT NOT NULL,
+      href TEXT NOT NULL,
+      chapterTitle TEXT,
+      startOffset INTEGER,
+      endOffset INTEGER,
+      expression TEXT NOT NULL,
+      reading TEXT NOT NULL DEFAULT '',
+      glossary TEXT NOT NULL DEFAULT '',
+      sentence TEXT NOT NULL DEFAULT '',
+      note TEXT NOT NULL DEFAULT '',
+      tags TEXT NOT NULL DEFAULT '',
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      clientId TEXT NOT NULL UNIQUE,
+      bookId TEXT NOT NULL,
+      bookTitle TEXT NOT NULL,
+      href TEXT NOT NULL,
+      chapterTitle TEXT,
+      startedAt INTEGER NOT NULL,
+      endedAt INTEGER NOT NULL,
+      activeMs INTEGER NOT NULL,
+      chars INTEGER NOT NULL DEFAULT 0,
+      startProgression REAL,
+      endProgression REAL
+    );
+    CREATE INDEX IF NOT EXISTS sessions_book_idx ON sessions(bookId, startedAt);
+    CREATE INDEX IF NOT EXISTS sessions_started_idx ON sessions(startedAt);
+    CREATE INDEX IF NOT EXISTS vocab_book_idx ON vocab(bookId, id);
+    CREATE INDEX IF NOT EXISTS dict_terms_expression_idx ON dict_terms(expression);
+    CREATE INDEX IF NOT EXISTS dict_terms_reading_idx ON dict_terms(reading);
+    CREATE INDEX IF NOT EXISTS dict_terms_dict_idx ON dict_terms(dictId);
     CREATE INDEX IF NOT EXISTS chapters_book_idx ON chapters(bookId, idx);
+    CREATE INDEX IF NOT EXISTS book_creators_book_idx ON book_creators(bookId, idx);
+    CREATE INDEX IF NOT EXISTS book_creators_name_idx ON book_creators(name);
+    CREATE INDEX IF NOT EXISTS book_subjects_book_idx ON book_subjects(bookId);
+    CREATE INDEX IF NOT EXISTS collection_books_book_idx ON collection_books(bookId);
+    CREATE INDEX IF NOT EXISTS book_tags_tag_idx ON book_tags(tag);
     CREATE INDEX IF NOT EXISTS bookmarks_book_idx ON bookmarks(bookId, id);
+    CREATE INDEX IF NOT EXISTS highlights_book_idx ON highlights(bookId, href);
   `);
 
   try {
@@ -76,93 +425,463 @@ export function initDb(dataDir: string) {
   } catch {
     // ignore if already exists
   }
+  for (const col of BOOK_META_COLUMNS) {
+    try {
+      db.exec(`ALTER TABLE books ADD COLUMN ${col}`);
+    } catch {
+      // ignore if already exists
+    }
+  }
+  try {
+    db.exec(`ALTER TABLE chapters ADD COLUMN depth INTEGER NOT NULL DEFAULT 0`);
+  } catch {
+    // ignore if already exists
+  }
+  try {
+    db.exec(`ALTER TABLE chapters ADD COLUMN parentIdx INTEGER`);
+  } catch {
+    // ignore if already exists
+  }
+  try {
+    db.exec(`ALTER TABLE chapters ADD COLUMN playOrder INTEGER`);
+  } catch {
+    // ignore if already exists
+  }
+  for (const col of ["bookProgression REAL", "readChars INTEGER NOT NULL DEFAULT 0", "readMs INTEGER NOT NULL DEFAULT 0"]) {
+    try {
+      db.exec(`ALTER TABLE progress ADD COLUMN ${col}`);
+    } catch {
+      // ignore if already exists
+    }
+  }
+  for (const table of ["progress", "bookmarks"]) {
+    try {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN textOffset INTEGER`);
+    } catch {
+      // ignore if already exists
+    }
+    try {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN progression REAL`);
+    } catch {
+      // ignore if already exists
+    }
+  }
 
-  const insertBook = db.prepare(
-    "INSERT INTO books (id, title, opfPath, coverHref, lastOpenedAt, createdAt) VALUES (@id, @title, @opfPath, @coverHref, @lastOpenedAt, @createdAt)"
+  // 重新导入时保留 createdAt / lastOpenedAt；不删除 books 行，以免级联删掉进度、书签、高亮
+  const upsertBookStmt = db.prepare(
+    `INSERT INTO books (id, title, opfPath, coverHref, lastOpenedAt, createdAt,
+                        author, authorSort, language, publisher, pubDate, description, identifier, series, seriesIndex,
+                        contentHash)
+     VALUES (@id, @title, @opfPath, @coverHref, @lastOpenedAt, @createdAt,
+             @author, @authorSort, @language, @publisher, @pubDate, @description, @identifier, @series, @seriesIndex,
+             @contentHash)
+     ON CONFLICT(id) DO UPDATE SET
+       title=excluded.title, opfPath=excluded.opfPath, coverHref=excluded.coverHref,
+       author=excluded.author, authorSort=excluded.authorSort, language=excluded.language,
+       publisher=excluded.publisher, pubDate=excluded.pubDate, description=excluded.description,
+       identifier=excluded.identifier, series=excluded.series, seriesIndex=excluded.seriesIndex,
+       contentHash=excluded.contentHash`
+  );
+  const insertCreator = db.prepare(
+    "INSERT INTO book_creators (bookId, idx, name, role, fileAs) VALUES (@bookId, @idx, @name, @role, @fileAs)"
   );
+  const insertSubject = db.prepare("INSERT INTO book_subjects (bookId, subject) VALUES (?, ?)");
   const deleteChapters = db.prepare("DELETE FROM chapters WHERE bookId = ?");
   const insertChapter = db.prepare(
-    "INSERT INTO chapters (bookId, idx, title, href) VALUES (@bookId, @idx, @title, @href)"
+    `INSERT INTO chapters (bookId, idx, title, href, depth, parentIdx, playOrder)
+     VALUES (@bookId, @idx, @title, @href, @depth, @parentIdx, @playOrder)`
   );
   const upsertProgressStmt = db.prepare(
-    `INSERT INTO progress (bookId, href, scrollX, scrollY, updatedAt)
-     VALUES (@bookId, @href, @scrollX, @scrollY, @updatedAt)
+    `INSERT INTO progress (bookId, href, scrollX, scrollY, textOffset, progression, bookProgression, readChars, readMs, updatedAt)
+     VALUES (@bookId, @href, @scrollX, @scrollY, @textOffset, @progression, @bookProgression, @readChars, @readMs, @updatedAt)
      ON CONFLICT(bookId) DO UPDATE SET
-       href=excluded.href, scrollX=excluded.scrollX, scrollY=excluded.scrollY, updatedAt=excluded.updatedAt`
+       href=excluded.href, scrollX=excluded.scrollX, scrollY=excluded.scrollY,
+       textOffset=excluded.textOffset, progression=excluded.progression, bookProgression=excluded.bookProgression,
+       readChars=excluded.readChars, readMs=excluded.readMs, updatedAt=excluded.updatedAt`
   );
   const insertBookmark = db.prepare(
-    "INSERT INTO bookmarks (bookId, href, scrollX, scrollY, title, createdAt) VALUES (@bookId, @href, @scrollX, @scrollY, @title, @createdAt)"
+    `INSERT INTO bookmarks (bookId, href, scrollX, scrollY, textOffset, progression, title, createdAt)
+     VALUES (@bookId, @href, @scrollX, @scrollY, @textOffset, @progression, @title, @createdAt)`
   );
   const deleteBookmarkStmt = db.prepare("DELETE FROM bookmarks WHERE bookId = ? AND id = ?");
+  const insertHighlight = db.prepare(
+    `INSERT INTO highlights (bookId, href, startOffset, endOffset, text, prefix, suffix, color, note, createdAt, updatedAt)
+     VALUES (@bookId, @href, @startOffset, @endOffset, @text, @prefix, @suffix, @color, @note, @createdAt, @updatedAt)`
+  );
+  const deleteHighlightStmt = db.prepare("DELETE FROM highlights WHERE bookId = ? AND id = ?");
+  const deleteBookText = db.prepare("DELETE FROM book_text WHERE bookId = ?");
+  const insertBookText = db.prepare(
+    "INSERT INTO book_text (bookId, idx, href, text) VALUES (@bookId, @idx, @href, @text)"
+  );
 
-  const upsertTx = db.transaction((book: BookRow, chapters: ChapterRow[]) => {
-    db.prepare("DELETE FROM books WHERE id = ?").run(book.id);
-    insertBook.run(book);
+  const upsertTx = db.transaction((book: BookRow, chapters: ChapterRow[], meta?: BookMetaRows) => {
+    upsertBookStmt.run({
+      lastOpenedAt: null,
+      ...Object.fromEntries(BOOK_META_COLUMNS.map((c) => [c.split(" ")[0], null])),
+      ...book,
+    });
+    db.prepare("DELETE FROM book_creators WHERE bookId = ?").run(book.id);
+    db.prepare("DELETE FROM book_subjects WHERE bookId = ?").run(book.id);
+    meta?.creators.forEach((c, i) =>
+      insertCreator.run({ bookId: book.id, idx: i, name: c.name, role: c.role ?? null, fileAs: c.fileAs ?? null })
+    );
+    for (const subject of new Set(meta?.subjects ?? [])) insertSubject.run(book.id, subject);
     deleteChapters.run(book.id);
-    chapters.forEach((c, i) => insertChapter.run({ bookId: book.id, idx: i, title: c.title, href: c.href }));
+    chapters.forEach((c, i) =>
+      insertChapter.run({
+        bookId: book.id,
+        idx: i,
+        title: c.title,
+        href: c.href,
+        depth: c.depth ?? 0,
+        parentIdx: c.parent ?? null,
+        playOrder: c.playOrder ?? null,
+      })
+    );
   });
 
-  function upsertBook(book: BookRow, chapters: ChapterRow[]) {
-    upsertTx(book, chapters);
+  function upsertBook(book: BookRow, chapters: ChapterRow[], meta?: BookMetaRows) {
+    upsertTx(book, chapters, meta);
   }
 
-  function listBooks() {
-    return db
+  /** 按 dc:identifier 或文件哈希找已经在书架上的同一本书 */
+  function findDuplicate(identifier: string | null | undefined, contentHash: string) {
+    const byHash = db.prepare("SELECT id, title FROM books WHERE contentHash = ? LIMIT 1").get(contentHash) as
+      | { id: string; title: string }
+      | undefined;
+    if (byHash) return { ...byHash, match: "hash" as const };
+    if (!identifier) return null;
+    const byId = db.prepare("SELECT id, title FROM books WHERE identifier = ? LIMIT 1").get(identifier) as
+      | { id: string; title: string }
+      | undefined;
+    return byId ? { ...byId, match: "identifier" as const } : null;
+  }
+
+  /** 重新导入后更新已保存位置的 href（kind: progress 以 bookId 为键，其余以 id 为键） */
+  function updatePositionHref(kind: "progress" | "bookmark" | "highlight", bookId: string, id: number | null, href: string) {
+    if (kind === "progress") {
+      return db.prepare("UPDATE progress SET href = ? WHERE bookId = ?").run(href, bookId).changes;
+    }
+    const table = kind === "bookmark" ? "bookmarks" : "highlights";
+    return db.prepare(`UPDATE ${table} SET href = ? WHERE bookId = ? AND id = ?`).run(href, bookId, id).changes;
+  }
+
+  function listBooks(query: BookQuery = {}) {
+    const where: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.q) {
+      params.like = `%${query.q}%`;
+      where.push(`(b.title LIKE @like OR b.series LIKE @like
+        OR EXISTS (SELECT 1 FROM book_creators bc WHERE bc.bookId = b.id AND bc.name LIKE @like))`);
+    }
+    if (query.author) {
+      params.author = query.author;
+      where.push("EXISTS (SELECT 1 FROM book_creators bc WHERE bc.bookId = b.id AND bc.name = @author)");
+    }
+    if (query.language) {
+      // "ja" 也匹配 "ja-JP"
+      params.language = query.language;
+      where.push("(b.language = @language COLLATE NOCASE OR b.language LIKE @language || '-%')");
+    }
+    if (query.subject) {
+      params.subject = query.subject;
+      where.push("EXISTS (SELECT 1 FROM book_subjects bs WHERE bs.bookId = b.id AND bs.subject = @subject)");
+    }
+    if (query.collection != null) {
+      params.collection = query.collection;
+      where.push("EXISTS (SELECT 1 FROM collection_books cb WHERE cb.bookId = b.id AND cb.collectionId = @collection)");
+    }
+    if (query.tag) {
+      params.tag = query.tag;
+      where.push("EXISTS (SELECT 1 FROM book_tags bt WHERE bt.bookId = b.id AND bt.tag = @tag)");
+    }
+    const rows = db
       .prepare(
         `SELECT b.id, b.title, b.createdAt, b.coverHref AS coverHref, b.lastOpenedAt AS lastOpenedAt,
-                (SELECT COUNT(1) FROM chapters c WHERE c.bookId = b.id) AS chapterCount
+                b.author, b.language, b.publisher, b.pubDate, b.series, b.seriesIndex,
+                (SELECT GROUP_CONCAT(bs.subject, char(31)) FROM book_subjects bs WHERE bs.bookId = b.id) AS subjects,
+                (SELECT GROUP_CONCAT(bt.tag, char(31)) FROM book_tags bt WHERE bt.bookId = b.id) AS tags,
+                (SELECT GROUP_CONCAT(cb.collectionId) FROM collection_books cb WHERE cb.bookId = b.id) AS collectionIds,
+                (SELECT COUNT(1) FROM chapters c WHERE c.bookId = b.id) AS chapterCount,
+                p.bookProgression AS bookProgression, p.updatedAt AS progressUpdatedAt
          FROM books b
-         ORDER BY b.createdAt DESC`
+         LEFT JOIN progress p ON p.bookId = b.id
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY ${SORT_SQL[query.sort ?? "added"] ?? SORT_SQL.added}`
       )
-      .all() as {
-        id: string;
-        title: string;
-        createdAt: number;
-        chapterCount: number;
-        coverHref?: string | null;
-        lastOpenedAt?: number | null;
-      }[];
+      .all(params) as (Omit<BookListItem, "subjects" | "tags" | "collectionIds"> & {
+        subjects: string | null;
+        tags: string | null;
+        collectionIds: string | null;
+      })[];
+    return rows.map((r) => ({
+      ...r,
+      subjects: r.subjects ? r.subjects.split(LIST_SEP) : [],
+      tags: r.tags ? r.tags.split(LIST_SEP) : [],
+      collectionIds: r.collectionIds ? r.collectionIds.split(",").map(Number) : [],
+    })) as BookListItem[];
+  }
+
+  /** 书架筛选项：作者（aut 或未标注 role）、语言、主题，带数量 */
+  function listFacets() {
+    return {
+      authors: db
+        .prepare(
+          `SELECT name AS value, COUNT(DISTINCT bookId) AS count FROM book_creators
+           WHERE role IS NULL OR role = 'aut' GROUP BY name ORDER BY name COLLATE NOCASE`
+        )
+        .all() as { value: string; count: number }[],
+      languages: db
+        .prepare(
+          `SELECT language AS value, COUNT(1) AS count FROM books
+           WHERE language IS NOT NULL GROUP BY language ORDER BY language`
+        )
+        .all() as { value: string; count: number }[],
+      subjects: db
+        .prepare(
+          `SELECT subject AS value, COUNT(DISTINCT bookId) AS count FROM book_subjects
+           GROUP BY subject ORDER BY subject COLLATE NOCASE`
+        )
+        .all() as { value: string; count: number }[],
+      tags: db
+        .prepare("SELECT tag AS value, COUNT(1) AS count FROM book_tags GROUP BY tag ORDER BY tag COLLATE NOCASE")
+        .all() as { value: string; count: number }[],
+    };
+  }
+
+  function listCollections() {
+    return db
+      .prepare(
+        `SELECT c.id, c.name, c.createdAt,
+                (SELECT COUNT(1) FROM collection_books cb WHERE cb.collectionId = c.id) AS bookCount
+         FROM collections c ORDER BY c.name COLLATE NOCASE`
+      )
+      .all() as CollectionRow[];
+  }
+
+  function createCollection(name: string, ts: number) {
+    return Number(db.prepare("INSERT INTO collections (name, createdAt) VALUES (?, ?)").run(name, ts).lastInsertRowid);
+  }
+
+  function renameCollection(id: number, name: string) {
+    return db.prepare("UPDATE collections SET name = ? WHERE id = ?").run(name, id).changes;
+  }
+
+  function deleteCollection(id: number) {
+    return db.prepare("DELETE FROM collections WHERE id = ?").run(id).changes;
+  }
+
+  const addToCollectionStmt = db.prepare(
+    "INSERT OR IGNORE INTO collection_books (collectionId, bookId, addedAt) VALUES (?, ?, ?)"
+  );
+  const removeFromCollectionStmt = db.prepare("DELETE FROM collection_books WHERE collectionId = ? AND bookId = ?");
+
+  /** 把书加入收藏夹；传了 from 就是从另一个收藏夹移动过来 */
+  const addToCollectionTx = db.transaction((id: number, bookIds: string[], ts: number, from?: number) => {
+    let changes = 0;
+    for (const bookId of bookIds) {
+      if (from != null && from !== id) removeFromCollectionStmt.run(from, bookId);
+      changes += addToCollectionStmt.run(id, bookId, ts).changes;
+    }
+    return changes;
+  });
+
+  function addToCollection(id: number, bookIds: string[], ts: number, from?: number) {
+    return addToCollectionTx(id, bookIds, ts, from) as number;
+  }
+
+  function removeFromCollection(id: number, bookId: string) {
+    return removeFromCollectionStmt.run(id, bookId).changes;
+  }
+
+  const addTagStmt = db.prepare("INSERT OR IGNORE INTO book_tags (bookId, tag) VALUES (?, ?)");
+  const removeTagStmt = db.prepare("DELETE FROM book_tags WHERE bookId = ? AND tag = ?");
+
+  const setTagsTx = db.transaction((bookId: string, tags: string[]) => {
+    db.prepare("DELETE FROM book_tags WHERE bookId = ?").run(bookId);
+    for (const tag of tags) addTagStmt.run(bookId, tag);
+  });
+
+  function setTags(bookId: string, tags: string[]) {
+    setTagsTx(bookId, tags);
+  }
+
+  const applyTagsTx = db.transaction((bookIds: string[], add: string[], remove: string[]) => {
+    for (const bookId of bookIds) {
+      for (const tag of remove) removeTagStmt.run(bookId, tag);
+      for (const tag of add) addTagStmt.run(bookId, tag);
+    }
+  });
+
+  function applyTags(bookIds: string[], add: string[], remove: string[]) {
+    applyTagsTx(bookIds, add, remove);
   }
 
   function getBook(id: string) {
     const book = db
-      .prepare("SELECT id, title, opfPath, coverHref, lastOpenedAt, createdAt FROM books WHERE id = ?")
+      .prepare(
+        `SELECT id, title, opfPath, coverHref, lastOpenedAt, createdAt,
+                author, authorSort, language, publisher, pubDate, description, identifier, series, seriesIndex,
+                contentHash
+         FROM books WHERE id = ?`
+      )
       .get(id) as
       | BookRow
       | undefined;
     if (!book) return null;
+    const creators = db
+      .prepare("SELECT name, role, fileAs FROM book_creators WHERE bookId = ? ORDER BY idx ASC")
+      .all(id) as CreatorRow[];
+    const subjects = (db.prepare("SELECT subject FROM book_subjects WHERE bookId = ?").all(id) as { subject: string }[]).map(
+      (r) => r.subject
+    );
     const chapters = db
-      .prepare("SELECT title, href FROM chapters WHERE bookId = ? ORDER BY idx ASC")
+      .prepare(
+        "SELECT title, href, depth, parentIdx AS parent, playOrder FROM chapters WHERE bookId = ? ORDER BY idx ASC"
+      )
       .all(id) as ChapterRow[];
-    return { ...book, chapters };
+    const tags = (db.prepare("SELECT tag FROM book_tags WHERE bookId = ? ORDER BY tag").all(id) as { tag: string }[]).map(
+      (r) => r.tag
+    );
+    return { ...book, creators, subjects, tags, chapters };
   }
 
   function deleteBook(id: string) {
+    deleteBookText.run(id);
     return db.prepare("DELETE FROM books WHERE id = ?").run(id).changes;
   }
 
+  function addHighlight(h: Omit<HighlightRow, "id">) {
+    const info = insertHighlight.run(h);
+    return Number(info.lastInsertRowid);
+  }
+
+  function listHighlights(bookId: string) {
+    return db
+      .prepare(
+        `SELECT id, bookId, href, startOffset, endOffset, text, prefix, suffix, color, note, createdAt, updatedAt
+         FROM highlights WHERE bookId = ? ORDER BY href ASC, startOffset ASC`
+      )
+      .all(bookId) as HighlightRow[];
+  }
+
+  function updateHighlight(bookId: string, id: number, patch: { color?: string; note?: string | null }, ts: number) {
+    return db
+      .prepare(
+        `UPDATE highlights SET
+           color = COALESCE(@color, color),
+           note = CASE WHEN @setNote THEN @note ELSE note END,
+           updatedAt = @ts
+         WHERE bookId = @bookId AND id = @id`
+      )
+      .run({
+        bookId,
+        id,
+        ts,
+        color: patch.color ?? null,
+        setNote: patch.note !== undefined ? 1 : 0,
+        note: patch.note ?? null,
+      }).changes;
+  }
+
+  function deleteHighlight(bookId: string, id: number) {
+    return deleteHighlightStmt.run(bookId, id).changes;
+  }
+
+  const indexTx = db.transaction((bookId: string, docs: BookTextRow[]) => {
+    deleteBookText.run(bookId);
+    for (const d of docs) insertBookText.run({ bookId, idx: d.idx, href: d.href, text: d.text });
+  });
+
+  function indexBookText(bookId: string, docs: BookTextRow[]) {
+    indexTx(bookId, docs);
+  }
+
+  function hasBookText(bookId: string) {
+    return !!db.prepare("SELECT 1 FROM book_text WHERE bookId = ? LIMIT 1").get(bookId);
+  }
+
+  /**
+   * 全文搜索。trigram 分词器要求至少 3 个字符，更短的词（日文人名常见）退回 LIKE 扫描。
+   * 具体的命中位置在 JS 里逐次查找，保证 occurrence 和阅读器里的计数一致。
+   */
+  function searchText(q: string, opts: { bookId?: string; limit?: number } = {}) {
+    const limit = opts.limit ?? 200;
+    const useFts = [...q].length >= 3;
+    const where = [useFts ? "t.text MATCH @match" : "t.text LIKE @like ESCAPE '\\'"];
+    if (opts.bookId) where.push("t.bookId = @bookId");
+    const rows = db
+      .prepare(
+        `SELECT t.bookId, t.href, t.text, b.title AS bookTitle,
+                (SELECT c.title FROM chapters c
+                  WHERE c.bookId = t.bookId AND (c.href = t.href OR c.href LIKE t.href || '#%')
+                  ORDER BY c.idx LIMIT 1) AS chapterTitle
+         FROM book_text t
+         JOIN books b ON b.id = t.bookId
+         WHERE ${where.join(" AND ")}
+         ORDER BY b.createdAt DESC, t.idx ASC`
+      )
+      .all({
+        match: `"${q.replace(/"/g, '""')}"`,
+        like: `%${q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`,
+        bookId: opts.bookId,
+      }) as { bookId: string; href: string; text: string; bookTitle: string; chapterTitle: string | null }[];
+
+    const hits: SearchHit[] = [];
+    const needle = q.toLowerCase();
+    for (const r of rows) {
+      const hay = r.text.toLowerCase();
+      let occurrence = 0;
+      for (let at = hay.indexOf(needle); at >= 0; at = hay.indexOf(needle, at + needle.length)) {
+        hits.push({
+          bookId: r.bookId,
+          bookTitle: r.bookTitle,
+          href: r.href,
+          chapterTitle: r.chapterTitle,
+          snippet: makeSnippet(r.text, at, q.length),
+          offset: at,
+          occurrence: occurrence++,
+        });
+        if (hits.length >= limit) return hits;
+      }
+    }
+    return hits;
+  }
+
   function markOpened(bookId: string, ts: number) {
     return db.prepare("UPDATE books SET lastOpenedAt = ? WHERE id = ?").run(ts, bookId).changes;
   }
 
   function upsertProgress(p: ProgressRow) {
-    upsertProgressStmt.run(p);
+    upsertProgressStmt.run({ ...PROGRESS_DEFAULTS, ...p });
   }
 
   function getProgress(bookId: string) {
     return db
-      .prepare("SELECT bookId, href, scrollX, scrollY, updatedAt FROM progress WHERE bookId = ?")
+      .prepare(
+        `SELECT bookId, href, scrollX, scrollY, textOffset, progression, bookProgression, readChars, readMs, updatedAt
+         FROM progress WHERE bookId = ?`
+      )
       .get(bookId) as ProgressRow | undefined;
   }
 
+  /** 全书库累计的阅读速度样本 */
+  function readingSpeed() {
+    return db.prepare("SELECT COALESCE(SUM(readChars), 0) AS chars, COALESCE(SUM(readMs), 0) AS ms FROM progress").get() as {
+      chars: number;
+      ms: number;
+    };
+  }
+
   function addBookmark(b: Omit<BookmarkRow, "id">) {
-    const info = insertBookmark.run(b);
+    const info = insertBookmark.run({ textOffset: null, progression: null, ...b });
     return Number(info.lastInsertRowid);
   }
 
   function listBookmarks(bookId: string) {
     return db
-      .prepare("SELECT id, bookId, href, scrollX, scrollY, title, createdAt FROM bookmarks WHERE bookId = ? ORDER BY id DESC")
+      .prepare(`SELECT id, bookId, href, scrollX, scrollY, textOffset, progression, title, createdAt
+         FROM bookmarks WHERE bookId = ? ORDER BY id DESC`)
       .all(bookId) as BookmarkRow[];
   }
 
@@ -170,16 +889,370 @@ export function initDb(dataDir: string) {
     return deleteBookmarkStmt.run(bookId, id).changes;
   }
 
+  function exportBook(id: string): BookBackup | null {
+    const detail = getBook(id);
+    if (!detail) return null;
+    const { creators, subjects, tags, chapters, ...book } = detail;
+    const collections = (
+      db
+        .prepare(
+          `SELECT c.name FROM collection_books cb JOIN collections c ON c.id = cb.collectionId
+           WHERE cb.bookId = ? ORDER BY c.name`
+        )
+        .all(id) as { name: string }[]
+    ).map((r) => r.name);
+    const progress = getProgress(id);
+    const strip = <T extends { id?: number; bookId?: string }>({ id: _id, bookId: _bookId, ...rest }: T) => rest;
+    return {
+      book,
+      creators,
+      subjects,
+      chapters,
+      tags,
+      collections,
+      progress: progress ? strip(progress) : null,
+      bookmarks: listBookmarks(id).reverse().map(strip),
+      highlights: listHighlights(id).map(strip),
+      settings: getBookSettings(id),
+    };
+  }
+
+  function exportLibrary(): LibraryBackup {
+    const ids = (db.prepare("SELECT id FROM books ORDER BY createdAt ASC").all() as { id: string }[]).map((r) => r.id);
+    return {
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      collections: db.prepare("SELECT name, createdAt FROM collections ORDER BY name").all() as LibraryBackup["collections"],
+      books: ids.map(exportBook).filter((b): b is BookBackup => !!b),
+      settings: getGlobalSettings(),
+      themes: getCustomThemes(),
+    };
+  }
+
+  /** 清空整个书库（恢复时的 replace 模式），返回被删除的书 id */
+  const clearLibraryTx = db.transaction(() => {
+    const ids = (db.prepare("SELECT id FROM books").all() as { id: string }[]).map((r) => r.id);
+    db.prepare("DELETE FROM book_text").run();
+    db.prepare("DELETE FROM books").run();
+    db.prepare("DELETE FROM collections").run();
+    return ids;
+  });
+
+  function clearLibrary() {
+    return clearLibraryTx() as string[];
+  }
+
+  /**
+   * 把备份里的阅读数据写到已经安装好的书上（upsertBook 之后调用）。
+   * 原有的进度、书签、高亮、标签会被备份内容替换；书架按名称合并，不存在则创建。
+   */
+  const restoreBookDataTx = db.transaction((bookId: string, b: BookBackup, collectionDates: Map<string, number>) => {
+    db.prepare("UPDATE books SET createdAt = ?, lastOpenedAt = ? WHERE id = ?").run(
+      b.book.createdAt,
+      b.book.lastOpenedAt ?? null,
+      bookId
+    );
+    db.prepare("DELETE FROM progress WHERE bookId = ?").run(bookId);
+    db.prepare("DELETE FROM bookmarks WHERE bookId = ?").run(bookId);
+    db.prepare("DELETE FROM highlights WHERE bookId = ?").run(bookId);
+    if (b.progress) upsertProgressStmt.run({ ...PROGRESS_DEFAULTS, ...b.progress, bookId });
+    for (const bm of b.bookmarks) insertBookmark.run({ textOffset: null, progression: null, ...bm, bookId });
+    for (const h of b.highlights) insertHighlight.run({ ...h, bookId });
+    setTagsTx(bookId, b.tags);
+    if (b.settings) setBookSettings(bookId, b.settings, Date.now());
+    for (const name of b.collections) {
+      const ts = collectionDates.get(name) ?? Date.now();
+      db.prepare("INSERT OR IGNORE INTO collections (name, createdAt) VALUES (?, ?)").run(name, ts);
+      const cid = (db.prepare("SELECT id FROM collections WHERE name = ?").get(name) as { id: number }).id;
+      addToCollectionStmt.run(cid, bookId, ts);
+    }
+  });
+
+  function restoreBookData(bookId: string, b: BookBackup, collectionDates: Map<string, number>) {
+    restoreBookDataTx(bookId, b, collectionDates);
+  }
+
+  function listDictionaries() {
+    return (
+      db
+        .prepare(
+          "SELECT id, title, revision, priority, enabled, termCount, importedAt FROM dictionaries ORDER BY priority, id"
+        )
+        .all() as (Omit<DictionaryRow, "enabled"> & { enabled: number })[]
+    ).map((d) => ({ ...d, enabled: !!d.enabled }));
+  }
+
+  function findDictionary(title: string, revision: string) {
+    return db.prepare("SELECT id FROM dictionaries WHERE title = ? AND revision = ?").get(title, revision) as
+      | { id: number }
+      | undefined;
+  }
+
+  /** 新导入的词典排在最后（优先级最低） */
+  function createDictionary(index: DictIndex, ts: number) {
+    const { next } = db.prepare("SELECT COALESCE(MAX(priority), -1) + 1 AS next FROM dictionaries").get() as {
+      next: number;
+    };
+    return Number(
+      db
+        .prepare("INSERT INTO dictionaries (title, revision, priority, importedAt) VALUES (?, ?, ?, ?)")
+        .run(index.title, index.revision, next, ts).lastInsertRowid
+    );
+  }
+
+  const insertDictTerm = db.prepare(
+    `INSERT INTO dict_terms (dictId, expression, reading, definitionTags, rules, score, glossary, sequence, termTags)
+     VALUES (@dictId, @expression, @reading, @definitionTags, @rules, @score, @glossary, @sequence, @termTags)`
+  );
+  const insertDictTermsTx = db.transaction((dictId: number, rows: DictTermRow[]) => {
+    for (const r of rows) insertDictTerm.run({ ...r, dictId, glossary: JSON.stringify(r.glossary) });
+    db.prepare("UPDATE dictionaries SET termCount = termCount + ? WHERE id = ?").run(rows.length, dictId);
+  });
+
+  function insertDictTerms(dictId: number, rows: DictTermRow[]) {
+    insertDictTermsTx(dictId, rows);
+  }
+
+  function updateDictionary(id: number, patch: { enabled?: boolean }) {
+    if (patch.enabled === undefined) return 0;
+    return db.prepare("UPDATE dictionaries SET enabled = ? WHERE id = ?").run(patch.enabled ? 1 : 0, id).changes;
+  }
+
+  /** 按给定顺序重排优先级；不在列表里的词典保持相对顺序排在后面 */
+  const reorderDictionariesTx = db.transaction((ids: number[]) => {
+    const rest = listDictionaries()
+      .map((d) => d.id)
+      .filter((id) => !ids.includes(id));
+    const stmt = db.prepare("UPDATE dictionaries SET priority = ? WHERE id = ?");
+    [...ids, ...rest].forEach((id, i) => stmt.run(i, id));
+  });
+
+  function reorderDictionaries(ids: number[]) {
+    reorderDictionariesTx(ids);
+  }
+
+  function deleteDictionary(id: number) {
+    return db.prepare("DELETE FROM dictionaries WHERE id = ?").run(id).changes;
+  }
+
+  /** 按词形或读音查询，只查启用的词典 */
+  function findTerms(terms: string[]) {
+    if (!terms.length) return [];
+    const placeholders = terms.map(() => "?").join(", ");
+    const rows = db
+      .prepare(
+        `SELECT t.dictId, d.title AS dictTitle, d.priority, t.expression, t.reading, t.definitionTags, t.rules,
+                t.score, t.glossary, t.sequence, t.termTags
+         FROM dict_terms t JOIN dictionaries d ON d.id = t.dictId
+         WHERE d.enabled = 1 AND (t.expression IN (${placeholders}) OR t.reading IN (${placeholders}))`
+      )
+      .all(...terms, ...terms) as (Omit<DictTermMatch, "glossary"> & { glossary: string })[];
+    return rows.map((r) => ({ ...r, glossary: JSON.parse(r.glossary) as string[] }));
+  }
+
+  /** 全局阅读设置（只存改过的键） */
+  function getGlobalSettings() {
+    const row = db.prepare("SELECT value FROM app_settings WHERE key = 'reader'").get() as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as ReaderSettingsPatch) : {};
+  }
+
+  function setGlobalSettings(patch: ReaderSettingsPatch) {
+    db.prepare(
+      `INSERT INTO app_settings (key, value) VALUES ('reader', ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    ).run(JSON.stringify(patch));
+  }
+
+  function getCustomThemes() {
+    const row = db.prepare("SELECT value FROM app_settings WHERE key = 'themes'").get() as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as CustomTheme[]) : [];
+  }
+
+  function setCustomThemes(themes: CustomTheme[]) {
+    db.prepare(
+      `INSERT INTO app_settings (key, value) VALUES ('themes', ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    ).run(JSON.stringify(themes));
+  }
+
+  function getBookSettings(bookId: string) {
+    const row = db.prepare("SELECT settings FROM book_settings WHERE bookId = ?").get(bookId) as
+      | { settings: string }
+      | undefined;
+    return row ? (JSON.parse(row.settings) as ReaderSettingsPatch) : {};
+  }
+
+  /** 覆盖项为空时删掉这一行，等同于重置为默认 */
+  function setBookSettings(bookId: string, patch: ReaderSettingsPatch, ts: number) {
+    if (!Object.keys(patch).length) return deleteBookSettings(bookId);
+    return db
+      .prepare(
+        `INSERT INTO book_settings (bookId, settings, updatedAt) VALUES (?, ?, ?)
+         ON CONFLICT(bookId) DO UPDATE SET settings = excluded.settings, updatedAt = excluded.updatedAt`
+      )
+      .run(bookId, JSON.stringify(patch), ts).changes;
+  }
+
+  function deleteBookSettings(bookId: string) {
+    return db.prepare("DELETE FROM book_settings WHERE bookId = ?").run(bookId).changes;
+  }
+
+  const VOCAB_COLUMNS = `id, bookId, bookTitle, href, chapterTitle, startOffset, endOffset, expression, reading,
+                         glossary, sentence, note, tags, createdAt, updatedAt`;
+
+  function upsertSession(s: Omit<SessionRow, "id">) {
+    db.prepare(
+      `INSERT INTO sessions (clientId, bookId, bookTitle, href, chapterTitle, startedAt, endedAt, activeMs, chars,
+                             startProgression, endProgression)
+       VALUES (@clientId, @bookId, @bookTitle, @href, @chapterTitle, @startedAt, @endedAt, @activeMs, @chars,
+               @startProgression, @endProgression)
+       ON CONFLICT(clientId) DO UPDATE SET
+         href=excluded.href, chapterTitle=excluded.chapterTitle, endedAt=excluded.endedAt, activeMs=excluded.activeMs,
+         chars=excluded.chars, endProgression=excluded.endProgression
+       WHERE sessions.bookId = excluded.bookId`
+    ).run(s);
+  }
+
+  function listSessions(bookId: string) {
+    return db
+      .prepare(
+        `SELECT id, clientId, bookId, bookTitle, href, chapterTitle, startedAt, endedAt, activeMs, chars,
+                startProgression, endProgression
+         FROM sessions WHERE bookId = ? ORDER BY startedAt DESC`
+      )
+      .all(bookId) as SessionRow[];
+  }
+
+  /** 按本地日期汇总（tzOffsetMin 同 JS 的 getTimezoneOffset()）；只返回有阅读的日子 */
+  function statsDays(tzOffsetMin: number) {
+    return db
+      .prepare(
+        `SELECT date((startedAt / 1000) - @tz * 60, 'unixepoch') AS day,
+                SUM(activeMs) AS activeMs, SUM(chars) AS chars, COUNT(1) AS sessions
+         FROM sessions GROUP BY day ORDER BY day`
+      )
+      .all({ tz: tzOffsetMin }) as StatsDay[];
+  }
+
+  /** 每本书的累计；读完时间取第一次结束在 FINISHED_PROGRESSION 之后的会话 */
+  function statsBooks() {
+    return db
+      .prepare(
+        `SELECT bookId, (SELECT s2.bookTitle FROM sessions s2 WHERE s2.bookId = s.bookId ORDER BY s2.startedAt DESC LIMIT 1)
+                AS bookTitle,
+                SUM(activeMs) AS activeMs, SUM(chars) AS chars, COUNT(1) AS sessions, MAX(endedAt) AS lastReadAt,
+                MIN(CASE WHEN endProgression >= @finished THEN endedAt END) AS finishedAt
+         FROM sessions s GROUP BY bookId ORDER BY lastReadAt DESC`
+      )
+      .all({ finished: FINISHED_PROGRESSION }) as StatsBook[];
+  }
+
+  function addVocab(v: Omit<VocabRow, "id">) {
+    const info = db
+      .prepare(
+        `INSERT INTO vocab (bookId, bookTitle, href, chapterTitle, startOffset, endOffset, expression, reading,
+                            glossary, sentence, note, tags, createdAt, updatedAt)
+         VALUES (@bookId, @bookTitle, @href, @chapterTitle, @startOffset, @endOffset, @expression, @reading,
+                 @glossary, @sentence, @note, @tags, @createdAt, @updatedAt)`
+      )
+      .run(v);
+    return Number(info.lastInsertRowid);
+  }
+
+  /** 新的在前；ids 用于导出选中的卡片 */
+  function listVocab(query: { bookId?: string; q?: string; ids?: number[] } = {}) {
+    const where: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.bookId) {
+      where.push("bookId = @bookId");
+      params.bookId = query.bookId;
+    }
+    if (query.q) {
+      params.like = `%${query.q}%`;
+      where.push("(expression LIKE @like OR reading LIKE @like OR sentence LIKE @like)");
+    }
+    if (query.ids) {
+      if (!query.ids.length) return [];
+      where.push(`id IN (${query.ids.map((_, i) => `@id${i}`).join(", ")})`);
+      query.ids.forEach((id, i) => (params[`id${i}`] = id));
+    }
+    return db
+      .prepare(`SELECT ${VOCAB_COLUMNS} FROM vocab ${where.length ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY id DESC`)
+      .all(params) as VocabRow[];
+  }
+
+  function getVocab(id: number) {
+    return db.prepare(`SELECT ${VOCAB_COLUMNS} FROM vocab WHERE id = ?`).get(id) as VocabRow | undefined;
+  }
+
+  function updateVocab(id: number, patch: VocabPatch, ts: number) {
+    const sets = VOCAB_TEXT_FIELDS.filter((f) => patch[f] !== undefined);
+    if (!sets.length) return getVocab(id) ? 1 : 0;
+    return db
+      .prepare(`UPDATE vocab SET ${sets.map((f) => `${f} = @${f}`).join(", ")}, updatedAt = @ts WHERE id = @id`)
+      .run({ ...patch, id, ts }).changes;
+  }
+
+  function deleteVocab(id: number) {
+    return db.prepare("DELETE FROM vocab WHERE id = ?").run(id).changes;
+  }
+
   return {
     upsertBook,
+    findDuplicate,
+    updatePositionHref,
+    exportLibrary,
+    clearLibrary,
+    listDictionaries,
+    findDictionary,
+    createDictionary,
+    insertDictTerms,
+    updateDictionary,
+    reorderDictionaries,
+    deleteDictionary,
+    findTerms,
+    restoreBookData,
     listBooks,
+    listFacets,
+    listCollections,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    setTags,
+    applyTags,
     getBook,
     deleteBook,
+    indexBookText,
+    hasBookText,
+    searchText,
     upsertProgress,
     getProgress,
+    readingSpeed,
+    upsertSession,
+    listSessions,
+    statsDays,
+    statsBooks,
     addBookmark,
     listBookmarks,
     deleteBookmark,
     markOpened,
+    addHighlight,
+    listHighlights,
+    updateHighlight,
+    deleteHighlight,
+    addVocab,
+    listVocab,
+    getVocab,
+    updateVocab,
+    deleteVocab,
+    getGlobalSettings,
+    setGlobalSettings,
+    getCustomThemes,
+    setCustomThemes,
+    getBookSettings,
+    setBookSettings,
+    deleteBookSettings,
   };
 }
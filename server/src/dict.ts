@@ -0,0 +1,348 @@
+import path from "path";
+import fs from "fs/promises";
+
+/**
+ * Yomitan（原 Yomichan）格式的词典：zip 里有 index.json 和若干 term_bank_N.json。
+ * 这里只负责读文件、整理词条和日语活用还原；存储和查询在 db.ts。
+ */
+
+export type DictIndex = { title: string; revision: string; format: number };
+export type DictTermRow = {
+  expression: string;
+  reading: string;
+  definitionTags: string;
+  /** 词类（v1 v5 vs vk adj-i ...），用于校验活用还原的结果 */
+  rules: string;
+  score: number;
+  /** 释义，已转成纯文本 */
+  glossary: string[];
+  sequence: number | null;
+  termTags: string;
+};
+
+export type DictTermMatch = DictTermRow & { dictId: number; dictTitle: string; priority: number };
+
+export async function readDictIndex(dirAbs: string): Promise<DictIndex> {
+  let json: any;
+  try {
+    json = JSON.parse(await fs.readFile(path.join(dirAbs, "index.json"), "utf8"));
+  } catch {
+    throw new Error("index.json not found: not a Yomitan dictionary");
+  }
+  const format = Number(json?.format ?? json?.version);
+  if (!json?.title || ![1, 2, 3].includes(format)) throw new Error("unsupported dictionary format");
+  return { title: String(json.title), revision: String(json.revision ?? ""), format };
+}
+
+/** 按文件名序号依次读取 term_bank_N.json，每次产出一个 bank 的词条 */
+export async function* readTermBanks(dirAbs: string): AsyncGenerator<DictTermRow[]> {
+  const names = (await fs.readdir(dirAbs))
+    .map((n) => ({ n, m: n.match(/^term_bank_(\d+)\.json$/) }))
+    .filter((x) => x.m)
+    .sort((a, b) => Number(a.m![1]) - Number(b.m![1]))
+    .map((x) => x.n);
+  for (const name of names) {
+    const rows = JSON.parse(await fs.readFile(path.join(dirAbs, name), "utf8"));
+    if (!Array.isArray(rows)) continue;
+    yield rows.filter(Array.isArray).map(toTermRow).filter((r): r is DictTermRow => !!r);
+  }
+}
+
+// [expression, reading, definitionTags, rules, score, glossary, sequence, termTags]
+function toTermRow(row: any[]): DictTermRow | null {
+  const [expression, reading, definitionTags, rules, score, glossary, sequence, termTags] = row;
+  if (typeof expression !== "string" || !expression) return null;
+  const defs = (Array.isArray(glossary) ? glossary : [glossary]).map(glossaryText).filter(Boolean);
+  if (!defs.length) return null;
+  return {
+    expression,
+    reading: typeof reading === "string" && reading ? reading : expression,
+    definitionTags: typeof definitionTags === "string" ? definitionTags : "",
+    rules: typeof rules === "string" ? rules : "",
+    score: Number(score) || 0,
+    glossary: defs,
+    sequence: Number.isFinite(Number(sequence)) ? Number(sequence) : null,
+    termTags: typeof termTags === "string" ? termTags : "",
+  };
+}
+
+const BLOCK_TAGS = new Set(["div", "p", "li", "ul", "ol", "table", "tr", "details", "summary", "br"]);
+
+/** structured-content 转纯文本：块级元素换行，ruby 注音和图片丢掉 */
+function contentText(node: any): string {
+  if (node == null) return "";
+  if (typeof node === "string") return node;
+  if (Array.isArray(node)) return node.map(contentText).join("");
+  if (typeof node !== "object") return "";
+  const tag = String(node.tag ?? "");
+  if (tag === "rt" || tag === "rp" || tag === "img") return "";
+  if (tag === "br") return "\n";
+  const inner = contentText(node.content);
+  return BLOCK_TAGS.has(tag) ? `\n${inner}\n` : inner;
+}
+
+function glossaryText(item: any): string {
+  if (typeof item === "string") return item.trim();
+  if (item?.type === "text") return String(item.text ?? "").trim();
+  if (item?.type === "structured-content") {
+    return contentText(item.content)
+      .split("\n")
+      .map((l) => l.trim())
+      .filter(Boolean)
+      .join("\n");
+  }
+  return "";
+}
+
+/** 片假名转平假名（读音字段一般是平假名） */
+export function toHiragana(s: string) {
+  return s.replace(/[ァ-ヶ]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0x60));
+}
+
+// ---------- 活用还原（简化版的 Yomitan deinflect） ----------
+
+type DeinflectRule = { kanaIn: string; kanaOut: string; rulesIn: string[]; rulesOut: string[]; reason: string };
+export type Deinflection = { term: string; rules: string[]; reasons: string[] };
+
+// 五段动词各行：辞书形, あ段, い段, え段, お段, て形, た形
+const GODAN: [string, string, string, string, string, string, string][] = [
+  ["う", "わ", "い", "え", "お", "って", "った"],
+  ["く", "か", "き", "け", "こ", "いて", "いた"],
+  ["ぐ", "が", "ぎ", "げ", "ご", "いで", "いだ"],
+  ["す", "さ", "し", "せ", "そ", "して", "した"],
+  ["つ", "た", "ち", "て", "と", "って", "った"],
+  ["ぬ", "な", "に", "ね", "の", "んで", "んだ"],
+  ["ぶ", "ば", "び", "べ", "ぼ", "んで", "んだ"],
+  ["む", "ま", "み", "め", "も", "んで", "んだ"],
+  ["る", "ら", "り", "れ", "ろ", "って", "った"],
+];
+const POLITE = ["ます", "ました", "ません", "ませんでした", "ましょう", "まして"];
+
+function buildRules(): DeinflectRule[] {
+  const rules: DeinflectRule[] = [];
+  const add = (kanaIn: string, kanaOut: string, rulesIn: string[], rulesOut: string[], reason: string) =>
+    rules.push({ kanaIn, kanaOut, rulesIn, rulesOut, reason });
+
+  for (const [dict, a, i, e, o, te, ta] of GODAN) {
+    const v5 = ["v5"];
+    add(`${a}ない`, dict, ["adj-i"], v5, "negative");
+    add(`${a}ず`, dict, [], v5, "-zu");
+    for (const p of POLITE) add(`${i}${p}`, dict, [], v5, "polite");
+    add(ta, dict, [], v5, "past");
+    add(`${ta}ら`, dict, [], v5, "-tara");
+    add(te, dict, ["iru"], v5, "-te");
+    add(`${i}たい`, dict, ["adj-i"], v5, "-tai");
+    add(`${e}る`, dict, ["v1"], v5, "potential");
+    add(`${a}れる`, dict, ["v1"], v5, "passive");
+    add(`${a}せる`, dict, ["v1"], v5, "causative");
+    add(`${e}ば`, dict, [], v5, "-ba");
+    add(`${o}う`, dict, [], v5, "volitional");
+    add(e, dict, [], v5, "imperative");
+  }
+  // 行く的促音便
+  add("いって", "いく", ["iru"], ["v5"], "-te");
+  add("いった", "いく", [], ["v5"], "past");
+  add("行って", "行く", ["iru"], ["v5"], "-te");
+  add("行った", "行く", [], ["v5"], "past");
+
+  // 一段动词：去掉る
+  const v1 = ["v1"];
+  add("ない", "る", ["adj-i"], v1, "negative");
+  add("ず", "る", [], v1, "-zu");
+  for (const p of POLITE) add(p, "る", [], v1, "polite");
+  add("た", "る", [], v1, "past");
+  add("たら", "る", [], v1, "-tara");
+  add("て", "る", ["iru"], v1, "-te");
+  add("たい", "る", ["adj-i"], v1, "-tai");
+  add("られる", "る", ["v1"], v1, "potential or passive");
+  add("させる", "る", ["v1"], v1, "causative");
+  add("れば", "る", [], v1, "-ba");
+  add("よう", "る", [], v1, "volitional");
+  add("ろ", "る", [], v1, "imperative");
+
+  // サ变：する，以及「勉強する」这类名词+する
+  const suru: [string, string, string[]][] = [
+    ["しない", "negative", ["adj-i"]],
+    ["した", "past", []],
+    ["したら", "-tara", []],
+    ["して", "-te", ["iru"]],
+    ["したい", "-tai", ["adj-i"]],
+    ["される", "passive", ["v1"]],
+    ["させる", "causative", ["v1"]],
+    ["できる", "potential", ["v1"]],
+    ["すれば", "-ba", []],
+    ["しよう", "volitional", []],
+    ["しろ", "imperative", []],
+    ["せず", "-zu", []],
+  ];
+  for (const [form, reason, rulesIn] of suru) add(form, "する", rulesIn, ["vs"], reason);
+  for (const p of POLITE) add(`し${p}`, "する", [], ["vs"], "polite");
+  add("する", "", ["vs"], ["vs"], "suru");
+
+  // カ变：来る / くる
+  const kuru: [string, string, string, string[]][] = [
+    ["こない", "来ない", "negative", ["adj-i"]],
+    ["きた", "来た", "past", []],
+    ["きたら", "来たら", "-tara", []],
+    ["きて", "来て", "-te", ["iru"]],
+    ["きたい", "来たい", "-tai", ["adj-i"]],
+    ["こられる", "来られる", "potential or passive", ["v1"]],
+    ["こさせる", "来させる", "causative", ["v1"]],
+    ["くれば", "来れば", "-ba", []],
+    ["こよう", "来よう", "volitional", []],
+    ["こい", "来い", "imperative", []],
+  ];
+  for (const [kana, kanji, reason, rulesIn] of kuru) {
+    add(kana, "くる", rulesIn, ["vk"], reason);
+    add(kanji, "来る", rulesIn, ["vk"], reason);
+  }
+  for (const p of POLITE) {
+    add(`き${p}`, "くる", [], ["vk"], "polite");
+    add(`来${p}`, "来る", [], ["vk"], "polite");
+  }
+
+  // い形容词
+  const adj = ["adj-i"];
+  add("くない", "い", ["adj-i"], adj, "negative");
+  add("かった", "い", [], adj, "past");
+  add("かったら", "い", [], adj, "-tara");
+  add("くて", "い", [], adj, "-te");
+  add("く", "い", [], adj, "adverb");
+  add("ければ", "い", [], adj, "-ba");
+  add("さ", "い", [], adj, "noun");
+  add("そう", "い", [], adj, "-sou");
+  add("すぎる", "い", ["v1"], adj, "-sugiru");
+
+  // 持续体：〜ている / 〜てる → て形
+  for (const [full, short, te] of [
+    ["ている", "てる", "て"],
+    ["でいる", "でる", "で"],
+  ]) {
+    add(full, te, ["v1"], ["iru"], "progressive");
+    add(short, te, ["v1"], ["iru"], "progressive");
+  }
+  return rules;
+}
+
+const RULES = buildRules();
+
+/** 广度优先地反复应用规则，返回所有可能的原形（包括原文本身） */
+export function deinflect(source: string): Deinflection[] {
+  const results: Deinflection[] = [{ term: source, rules: [], reasons: [] }];
+  const seen = new Set([`${source}|`]);
+  for (let i = 0; i < results.length; i++) {
+    const { term, rules, reasons } = results[i];
+    for (const r of RULES) {
+      // 中间结果带有词类时，只有以该词类为输入的规则可以继续接
+      if (rules.length && !r.rulesIn.some((x) => rules.includes(x))) continue;
+      if (!term.endsWith(r.kanaIn)) continue;
+      const stem = term.slice(0, term.length - r.kanaIn.length);
+      if (stem.length + r.kanaOut.length === 0) continue;
+      const next = { term: stem + r.kanaOut, rules: r.rulesOut, reasons: [r.reason, ...reasons] };
+      const key = `${next.term}|${next.rules.join(" ")}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(next);
+    }
+  }
+  return results;
+}
+
+/** 活用还原的结果只接受词类匹配的词条（没有词类要求的原文本身全部接受） */
+export function rulesMatch(candidate: Deinflection, entryRules: string) {
+  if (!candidate.rules.length) return true;
+  const have = entryRules.split(/\s+/).filter(Boolean);
+  return candidate.rules.some((r) => have.some((h) => h === r || h.startsWith(r)));
+}
+
+// ---------- 查词：最长匹配 ----------
+
+const MAX_LOOKUP_LENGTH = 20;
+const MAX_LOOKUP_ENTRIES = 16;
+
+export type LookupDefinition = {
+  dictId: number;
+  dictTitle: string;
+  glossary: string[];
+  definitionTags: string;
+  termTags: string;
+};
+export type LookupEntry = {
+  expression: string;
+  reading: string;
+  /** 原文中被匹配的部分及其长度（活用形） */
+  source: string;
+  length: number;
+  /** 活用还原经过的变形，例如 ["polite", "past"] */
+  reasons: string[];
+  definitions: LookupDefinition[];
+};
+
+/**
+ * 从 text 开头做最长匹配：每个前缀都做活用还原，一次性查库，
+ * 同一词形+读音合并各词典的释义；长匹配在前，其次是词典优先级和词频分。
+ */
+export function lookupText(text: string, find: (terms: string[]) => DictTermMatch[]) {
+  const head = text.trim().slice(0, MAX_LOOKUP_LENGTH);
+  const candidates: { source: string; d: Deinflection }[] = [];
+  for (let len = head.length; len > 0; len--) {
+    const source = head.slice(0, len);
+    const variants = new Set([source, toHiragana(source)]);
+    for (const v of variants) for (const d of deinflect(v)) candidates.push({ source, d });
+  }
+  const rows = find([...new Set(candidates.map((c) => c.d.term))]);
+  const byTerm = new Map<string, DictTermMatch[]>();
+  for (const r of rows) {
+    for (const key of new Set([r.expression, r.reading])) {
+      const list = byTerm.get(key) ?? [];
+      list.push(r);
+      byTerm.set(key, list);
+    }
+  }
+
+  const groups = new Map<string, { source: string; d: Deinflection; rows: DictTermMatch[] }>();
+  const used = new Set<DictTermMatch>();
+  for (const { source, d } of candidates) {
+    for (const r of byTerm.get(d.term) ?? []) {
+      if (used.has(r) || !rulesMatch(d, r.rules)) continue;
+      used.add(r);
+      const key = `${r.expression}\u0000${r.reading}`;
+      const g = groups.get(key) ?? { source, d, rows: [] };
+      g.rows.push(r);
+      groups.set(key, g);
+    }
+  }
+
+  const rank = (rows: DictTermMatch[]) => ({
+    priority: Math.min(...rows.map((r) => r.priority)),
+    score: Math.max(...rows.map((r) => r.score)),
+  });
+  const sorted = [...groups.values()]
+    .map((g) => ({ ...g, ...rank(g.rows) }))
+    .sort(
+      (a, b) =>
+        b.source.length - a.source.length ||
+        a.d.reasons.length - b.d.reasons.length ||
+        a.priority - b.priority ||
+        b.score - a.score
+    )
+    .slice(0, MAX_LOOKUP_ENTRIES);
+
+  const entries: LookupEntry[] = sorted.map((g) => ({
+    expression: g.rows[0].expression,
+    reading: g.rows[0].reading,
+    source: g.source,
+    length: g.source.length,
+    reasons: g.d.reasons,
+    definitions: g.rows
+      .sort((a, b) => a.priority - b.priority || b.score - a.score)
+      .map((r) => ({
+        dictId: r.dictId,
+        dictTitle: r.dictTitle,
+        glossary: r.glossary,
+        definitionTags: r.definitionTags,
+        termTags: r.termTags,
+      })),
+  }));
+  return { length: entries[0]?.length ?? 0, entries };
+}
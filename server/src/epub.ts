@@ -60,13 +60,63 @@ function asText(x: unknown): string | null {
   return String(x);
 }
 
+/** 目录项：按目录顺序平铺，depth/parent 保留层级（parent 是父项在数组中的下标） */
+export type TocEntry = { title: string; href: string; depth: number; parent: number | null; playOrder?: number };
+
+export type Creator = { name: string; role?: string; fileAs?: string };
+
+export type BookMetadata = {
+  creators: Creator[];
+  language?: string;
+  publisher?: string;
+  date?: string;
+  description?: string;
+  subjects: string[];
+  identifier?: string;
+  series?: string;
+  seriesIndex?: number;
+};
+
+/** 固定版式里单个 spine 文档的设定；spread 是跨页显示时放在左页 / 右页 / 单独居中 */
+export type SpineLayout = { fixed: boolean; spread?: "left" | "right" | "center" };
+
+/** 一段朗读（SMIL 的 par）：文档里 id 为 fragment 的元素对应 audio 的 begin～end 秒；没写 clipEnd 的放到音频结束 */
+export type OverlayClip = { fragment?: string; audio: string; begin: number; end?: number };
+
+/** EPUB3 Media Overlays（有声朗读） */
+export type MediaOverlay = {
+  /** media:active-class：正在朗读的元素加上的 class；书里没写时为空 */
+  activeClass?: string;
+  /** media:playback-active-class：播放期间加在文档根元素上的 class */
+  playbackActiveClass?: string;
+  /** 和 spine 一一对应，按 SMIL 里的顺序；没有朗读的文档是 null */
+  clips: (OverlayClip[] | null)[];
+};
+
 export type BookManifest = {
   title: string;
+  metadata?: BookMetadata;
   opfPath: string;
   spine: string[]; // 相对 bookRoot 的资源路径
-  chapters: { title: string; href: string }[];
+  chapters: TocEntry[];
   coverHref?: string;
   vertical?: boolean;
+  /** 每个 spine 文档的字数（不含空白），用于全书进度；旧书没有，第一次用到时补上 */
+  spineChars?: number[];
+  /** 只放脚注 / 尾注的 spine 文档（书末的注释页），阅读器可以把它们从章节列表里隐藏；旧书同样按需补上 */
+  noteDocs?: string[];
+  /** comic：图片压缩包（.cbz）导入，页面是生成的；没有时是 EPUB */
+  format?: "comic";
+  /** 有固定版式（pre-paginated）的页面，漫画、绘本；旧书第一次打开时补上 */
+  fixedLayout?: boolean;
+  /** spine 的 page-progression-direction；没写时不设 */
+  pageDirection?: "ltr" | "rtl";
+  /** rendition:spread：none 表示不要两页并排 */
+  spreadMode?: "none" | "landscape" | "portrait" | "both" | "auto";
+  /** 和 spine 一一对应；只有固定版式的书才有 */
+  spineLayout?: SpineLayout[];
+  /** 有声朗读；null 表示书里没有，旧书没有这一项时第一次打开补上 */
+  mediaOverlay?: MediaOverlay | null;
 };
 
 /** 解析 OPF：title + spine（MVP） */
@@ -74,12 +124,14 @@ export async function parseOpf(bookRootAbs: string, opfRelPath: string): Promise
   const opfAbs = safeJoin(bookRootAbs, opfRelPath);
   const opfXml = await readText(opfAbs);
 
-  const parser = new XMLParser({ ignoreAttributes: false });
+  // parseTagValue: false keeps identifiers like ISBNs (and leading zeros) as strings
+  const parser = new XMLParser({ ignoreAttributes: false, parseTagValue: false });
   const json = parser.parse(opfXml);
 
   const metadata = json?.package?.metadata;
   const titleRaw = metadata?.["dc:title"] ?? metadata?.title ?? "Untitled";
   const title = asText(titleRaw) ?? "Untitled";
+  const meta = extractMetadata(metadata, json?.package?.["@_unique-identifier"]);
 
   const manifestItems = json?.package?.manifest?.item ?? [];
   const spineItems = json?.package?.spine?.itemref ?? [];
@@ -87,13 +139,14 @@ export async function parseOpf(bookRootAbs: string, opfRelPath: string): Promise
   const itemsArr = Array.isArray(manifestItems) ? manifestItems : [manifestItems];
   const spineArr = Array.isArray(spineItems) ? spineItems : [spineItems];
 
-  const manifestMap = new Map<string, { href: string; properties?: string; mediaType?: string }>();
+  const manifestMap = new Map<string, { href: string; properties?: string; mediaType?: string; mediaOverlay?: string }>();
   for (const it of itemsArr) {
     const id = it?.["@_id"];
     const href = it?.["@_href"];
     const properties = it?.["@_properties"];
     const mediaType = it?.["@_media-type"];
-    if (isString(id) && isString(href)) manifestMap.set(id, { href, properties, mediaType });
+    const mediaOverlay = it?.["@_media-overlay"];
+    if (isString(id) && isString(href)) manifestMap.set(id, { href, properties, mediaType, mediaOverlay });
   }
 
   // OPF 所在目录（spine href 相对这个目录）
@@ -101,25 +154,247 @@ export async function parseOpf(bookRootAbs: string, opfRelPath: string): Promise
   const opfDir = opfDirRel === "." ? "" : opfDirRel;
   const resolveHref = (href: string) => (opfDir ? `${opfDir}/${href}` : href).replace(/\\/g, "/");
 
-  const spine = spineArr
-    .map((it: any) => it?.["@_idref"])
-    .filter(isString)
-    .map((idref: string) => manifestMap.get(idref)?.href)
-    .filter(isString)
-    .map(resolveHref);
+  const spineRefs: { href: string; properties: unknown; overlay?: string }[] = [];
+  for (const it of spineArr) {
+    const item = manifestMap.get(it?.["@_idref"]);
+    if (isString(item?.href)) spineRefs.push({ href: item.href, properties: it?.["@_properties"], overlay: item.mediaOverlay });
+  }
+  const spine: string[] = spineRefs.map((it) => resolveHref(it.href));
 
   if (!spine.length) {
     throw new Error("Spine is empty (could not resolve itemrefs).");
   }
+  const layout = extractLayout(metadata, json?.package?.spine, spineRefs);
 
-  let chapters = await extractChapters(bookRootAbs, opfDir, json, manifestMap, spine);
-  if (chapters.length < spine.length) {
-    chapters = mergeChaptersWithSpine(bookRootAbs, spine, chapters);
-  }
+  const chapters = await extractChapters(bookRootAbs, opfDir, json, manifestMap, spine);
   const coverHref = await extractCoverHref(bookRootAbs, opfDir, json, manifestMap, spine);
   const vertical = await detectVertical(bookRootAbs, spine, opfRelPath);
+  const overlayHrefs = spineRefs.map((it) => {
+    const smil = it.overlay ? manifestMap.get(it.overlay)?.href : undefined;
+    return smil ? resolveHref(smil) : undefined;
+  });
+  const mediaOverlay = await extractMediaOverlay(bookRootAbs, metadata, overlayHrefs, spine);
+
+  return { title, metadata: meta, opfPath: opfRelPath, spine, chapters, coverHref, vertical, ...layout, mediaOverlay };
+}
+
+const SPREAD_MODES = ["none", "landscape", "portrait", "both", "auto"] as const;
+
+/**
+ * 固定版式：package 级的 rendition:layout（EPUB2 的 fixed-layout meta 也算），
+ * 可以被 itemref 上的 rendition:layout-pre-paginated / -reflowable 单独覆盖；
+ * page-spread-left / right（带不带 rendition: 前缀）决定跨页时的位置。
+ */
+function extractLayout(metadata: any, spineEl: any, refs: { properties?: unknown }[]) {
+  const metas = asArray(metadata?.meta);
+  const prop = (name: string) => metaProperty(metadata, name);
+  const bookFixed =
+    prop("rendition:layout") === "pre-paginated" ||
+    metas.some((m) => m?.["@_name"] === "fixed-layout" && String(m?.["@_content"]).toLowerCase() === "true");
+  const spreadMode = SPREAD_MODES.find((x) => x === prop("rendition:spread"));
+  const direction = spineEl?.["@_page-progression-direction"];
+  const pageDirection = direction === "rtl" || direction === "ltr" ? direction : undefined;
+
+  const spineLayout: SpineLayout[] = refs.map((ref) => {
+    const props = isString(ref.properties) ? ref.properties.split(/\s+/) : [];
+    const has = (p: string) => props.includes(p) || props.includes(`rendition:${p}`);
+    const fixed = has("layout-pre-paginated") ? true : has("layout-reflowable") ? false : bookFixed;
+    const spread = has("page-spread-left") ? "left" : has("page-spread-right") ? "right" : has("page-spread-center") ? "center" : undefined;
+    return spread ? { fixed, spread } : { fixed };
+  });
+  const fixedLayout = spineLayout.some((l) => l.fixed);
+  return {
+    fixedLayout,
+    ...(pageDirection ? { pageDirection } : {}),
+    ...(fixedLayout ? { spineLayout, ...(spreadMode ? { spreadMode } : {}) } : {}),
+  };
+}
+
+function asArray(x: unknown): any[] {
+  if (x == null) return [];
+  return Array.isArray(x) ? x : [x];
+}
+
+/** EPUB3 的 <meta property="..."> */
+function metaProperty(metadata: any, name: string) {
+  return asText(asArray(metadata?.meta).find((m) => m?.["@_property"] === name))?.trim() || undefined;
+}
+
+/** SMIL 时钟值：h:mm:ss.fff、mm:ss.fff，或带单位的 12.5s、1500ms、2min、1h（不带单位是秒） */
+function parseClock(value?: string): number | undefined {
+  const v = value?.trim();
+  if (!v) return undefined;
+  if (v.includes(":")) {
+    const parts = v.split(":").map(Number);
+    if (parts.length > 3 || parts.some((n) => !Number.isFinite(n))) return undefined;
+    return parts.reduce((sum, n) => sum * 60 + n, 0);
+  }
+  const m = /^([\d.]+)\s*(h|min|s|ms)?$/.exec(v);
+  if (!m) return undefined;
+  const n = Number(m[1]);
+  if (!Number.isFinite(n)) return undefined;
+  return m[2] === "h" ? n * 3600 : m[2] === "min" ? n * 60 : m[2] === "ms" ? n / 1000 : n;
+}
+
+function smilAttr(tag: string, name: string) {
+  const m = new RegExp(`\\s${name}\\s*=\\s*(["'])([\\s\\S]*?)\\1`).exec(tag);
+  return m ? decodeEntities(m[2]!) : undefined;
+}
+
+/** 比较书里的路径（可能有 %20 之类的编码、./ 和 ../） */
+function samePath(a: string, b: string) {
+  const norm = (p: string) => {
+    try {
+      p = decodeURIComponent(p);
+    } catch {
+      // keep as is
+    }
+    return path.posix.normalize(p);
+  };
+  return norm(a) === norm(b);
+}
+
+/** 按文档顺序读出 SMIL 里的 par（嵌套的 seq 只是分组，不影响顺序）；路径相对书的根目录 */
+async function parseSmil(bookRootAbs: string, smilRel: string) {
+  const xml = await readText(safeJoin(bookRootAbs, smilRel));
+  const dir = path.posix.dirname(smilRel);
+  const resolve = (href: string) => path.posix.normalize(dir === "." ? href : `${dir}/${href}`);
+  const pars: { doc: string; clip: OverlayClip }[] = [];
+  for (const m of xml.matchAll(/<(?:\w+:)?par\b[^>]*>([\s\S]*?)<\/(?:\w+:)?par>/gi)) {
+    const textTag = /<(?:\w+:)?text\b[^>]*>/i.exec(m[1]!)?.[0];
+    const audioTag = /<(?:\w+:)?audio\b[^>]*>/i.exec(m[1]!)?.[0];
+    const textSrc = textTag && smilAttr(textTag, "src");
+    const audioSrc = audioTag && smilAttr(audioTag, "src");
+    if (!textSrc || !audioSrc) continue;
+    const [file = "", fragment] = textSrc.split("#");
+    const end = parseClock(smilAttr(audioTag!, "clipEnd"));
+    pars.push({
+      doc: resolve(file),
+      clip: {
+        ...(fragment ? { fragment } : {}),
+        audio: resolve(audioSrc),
+        begin: parseClock(smilAttr(audioTag!, "clipBegin")) ?? 0,
+        ...(end != null ? { end } : {}),
+      },
+    });
+  }
+  // 没写 clipEnd 的片段放到同一音频里下一段开始为止
+  pars.forEach(({ clip }, i) => {
+    const next = pars[i + 1]?.clip;
+    if (clip.end == null && next?.audio === clip.audio && next.begin > clip.begin) clip.end = next.begin;
+  });
+  return pars;
+}
+
+/** spine 文档的 media-overlay 指向的 SMIL → 各文档的朗读片段；一个都没有时返回 null */
+async function extractMediaOverlay(
+  bookRootAbs: string,
+  metadata: any,
+  smilHrefs: (string | undefined)[],
+  spine: string[]
+): Promise<MediaOverlay | null> {
+  if (!smilHrefs.some(Boolean)) return null;
+  // 几个文档共用一个 SMIL 时只读一次
+  const parsed = new Map<string, Awaited<ReturnType<typeof parseSmil>>>();
+  const clips: (OverlayClip[] | null)[] = [];
+  for (const [i, smil] of smilHrefs.entries()) {
+    if (!smil) {
+      clips.push(null);
+      continue;
+    }
+    if (!parsed.has(smil)) parsed.set(smil, await parseSmil(bookRootAbs, smil).catch(() => []));
+    const own = parsed.get(smil)!.filter((p) => samePath(p.doc, spine[i]!.split("#")[0]!)).map((p) => p.clip);
+    clips.push(own.length ? own : null);
+  }
+  if (!clips.some(Boolean)) return null;
+  const activeClass = metaProperty(metadata, "media:active-class");
+  const playbackActiveClass = metaProperty(metadata, "media:playback-active-class");
+  return { ...(activeClass ? { activeClass } : {}), ...(playbackActiveClass ? { playbackActiveClass } : {}), clips };
+}
+
+/** dc:* 元素可能带不带前缀（dc:creator / creator） */
+function dcElements(metadata: any, name: string) {
+  return [...asArray(metadata?.[`dc:${name}`]), ...asArray(metadata?.[name])];
+}
+
+/**
+ * 读取 dc:creator / language / publisher / date / description / subject / identifier，
+ * 以及丛书信息（EPUB3 belongs-to-collection 或 calibre:series）。
+ * EPUB3 用 <meta refines="#id"> 给元素补充 role、file-as，EPUB2 直接写在 opf:role / opf:file-as 属性上。
+ */
+function extractMetadata(metadata: any, uniqueId?: string): BookMetadata {
+  const metas = asArray(metadata?.meta);
+  const refines = new Map<string, Map<string, string>>();
+  for (const m of metas) {
+    const target = m?.["@_refines"];
+    const prop = m?.["@_property"];
+    const value = asText(m);
+    if (!isString(target) || !isString(prop) || !value) continue;
+    const id = target.replace(/^#/, "");
+    if (!refines.has(id)) refines.set(id, new Map());
+    refines.get(id)!.set(prop, value.trim());
+  }
+  const refined = (el: any, prop: string) => {
+    const id = el?.["@_id"];
+    return isString(id) ? refines.get(id)?.get(prop) : undefined;
+  };
+  const text = (el: any) => asText(el)?.trim() || undefined;
+
+  const creators: Creator[] = [];
+  for (const el of dcElements(metadata, "creator")) {
+    const name = text(el);
+    if (!name) continue;
+    const role = el?.["@_opf:role"] ?? refined(el, "role");
+    const fileAs = el?.["@_opf:file-as"] ?? refined(el, "file-as");
+    creators.push({ name, ...(isString(role) ? { role } : {}), ...(isString(fileAs) ? { fileAs } : {}) });
+  }
+
+  const identifiers = dcElements(metadata, "identifier");
+  const identifierEl = identifiers.find((el) => isString(uniqueId) && el?.["@_id"] === uniqueId) ?? identifiers[0];
+
+  const description = text(dcElements(metadata, "description")[0]);
+
+  let series: string | undefined;
+  let seriesIndex: number | undefined;
+  for (const m of metas) {
+    if (m?.["@_property"] !== "belongs-to-collection") continue;
+    const type = refined(m, "collection-type");
+    if (type && type !== "series") continue;
+    series = text(m);
+    const pos = Number(refined(m, "group-position"));
+    if (Number.isFinite(pos)) seriesIndex = pos;
+    break;
+  }
+  if (!series) {
+    for (const m of metas) {
+      if (m?.["@_name"] === "calibre:series" && isString(m?.["@_content"])) series = m["@_content"];
+      if (m?.["@_name"] === "calibre:series_index") {
+        const pos = Number(m?.["@_content"]);
+        if (Number.isFinite(pos)) seriesIndex = pos;
+      }
+    }
+    if (!series) seriesIndex = undefined;
+  }
+
+  return {
+    creators,
+    language: text(dcElements(metadata, "language")[0]),
+    publisher: text(dcElements(metadata, "publisher")[0]),
+    date: text(dcElements(metadata, "date")[0]),
+    // 描述里常常是转义过的 HTML
+    description: description ? decodeEntities(stripTags(decodeEntities(description))) || undefined : undefined,
+    subjects: dcElements(metadata, "subject").map(text).filter(isString),
+    identifier: text(identifierEl),
+    series,
+    seriesIndex,
+  };
+}
 
-  return { title, opfPath: opfRelPath, spine, chapters, coverHref, vertical };
+/** 用于显示和排序的主要作者：role 为 aut 或未标注 role 的 creator */
+export function primaryAuthors(meta?: BookMetadata) {
+  const creators = meta?.creators ?? [];
+  const authors = creators.filter((c) => !c.role || c.role === "aut");
+  return authors.length ? authors : creators.slice(0, 1);
 }
 
 function stripTags(s: string) {
@@ -132,8 +407,8 @@ async function extractChapters(
   opfJson: any,
   manifestMap: Map<string, { href: string; properties?: string; mediaType?: string }>,
   spine: string[]
-): Promise<{ title: string; href: string }[]> {
-  const chapters: { title: string; href: string }[] = [];
+): Promise<TocEntry[]> {
+  const chapters: TocEntry[] = [];
 
   // EPUB2: spine @toc -> NCX
   const tocId = opfJson?.package?.spine?.["@_toc"];
@@ -150,17 +425,26 @@ async function extractChapters(
           const navPoints = navMap?.navPoint ?? [];
           const arr = Array.isArray(navPoints) ? navPoints : [navPoints];
 
-          const walk = (np: any) => {
-            const label = np?.navLabel?.text;
+          const walk = (np: any, depth: number, parent: number | null) => {
+            const label = asText(np?.navLabel?.text);
             const src = np?.content?.["@_src"];
+            let self = parent;
             if (isString(label) && isString(src)) {
-              chapters.push({ title: String(label), href: (opfDir ? `${opfDir}/${src}` : src).replace(/\\/g, "/") });
+              const playOrder = Number(np?.["@_playOrder"]);
+              self = chapters.length;
+              chapters.push({
+                title: label,
+                href: normalizeHref(opfDir, src),
+                depth,
+                parent,
+                ...(Number.isFinite(playOrder) ? { playOrder } : {}),
+              });
             }
             const children = np?.navPoint ?? [];
             const childArr = Array.isArray(children) ? children : [children];
-            for (const c of childArr) if (c) walk(c);
+            for (const c of childArr) if (c) walk(c, self === parent ? depth : depth + 1, self);
           };
-          for (const p of arr) if (p) walk(p);
+          for (const p of arr) if (p) walk(p, 0, null);
         } catch {
           // ignore ncx parse errors
         }
@@ -187,15 +471,9 @@ async function extractChapters(
           /<nav[^>]*(?:epub:type|role)=["'](?:toc|doc-toc)["'][^>]*>([\s\S]*?)<\/nav>/i
         );
         const navBlock = navMatch ? navMatch[1] : navHtml;
-        const re = /<a\b[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
-        let m: RegExpExecArray | null;
-        while ((m = re.exec(navBlock))) {
-          const href = m[1];
-          const title = stripTags(m[2] || "");
-          if (isString(href) && isString(title)) {
-            chapters.push({ title, href: (opfDir ? `${opfDir}/${href}` : href).replace(/\\/g, "/") });
-          }
-        }
+        // nav 文档相对于它自己所在目录，而不是 OPF 目录
+        const navDir = path.posix.dirname(normalizeHref(opfDir, navHref));
+        chapters.push(...parseNavList(navBlock, (href) => normalizeHref(navDir === "." ? "" : navDir, href)));
       } catch {
         // ignore nav parse errors
       }
@@ -205,7 +483,7 @@ async function extractChapters(
   if (chapters.length) return chapters;
 
   // Fallback: try <title> in each spine document, then filename, then generic
-  const out: { title: string; href: string }[] = [];
+  const out: TocEntry[] = [];
   for (let i = 0; i < spine.length; i++) {
     const href = spine[i];
     const cleanHref = href.split("#")[0];
@@ -222,46 +500,75 @@ async function extractChapters(
       const base = path.posix.basename(cleanHref || href);
       title = base.replace(/\.[^.]+$/, "") || `Chapter ${i + 1}`;
     }
-    out.push({ title, href });
+    out.push({ title, href, depth: 0, parent: null });
   }
   return out;
 }
 
-function mergeChaptersWithSpine(
-  bookRootAbs: string,
-  spine: string[],
-  chapters: { title: string; href: string }[]
-) {
-  const titleMap = new Map<string, string>();
-  for (const c of chapters) {
-    const base = c.href.split("#")[0];
-    if (!titleMap.has(base) && c.title) titleMap.set(base, c.title);
+/**
+ * 解析 EPUB3 nav 里嵌套的 <ol>/<li>。每个 <li> 的标签是 <a href> 或（无链接的分组标题）<span>；
+ * 无链接的分组用第一个子项的 href，没有子项就丢掉。
+ */
+function parseNavList(navBlock: string, resolve: (href: string) => string): TocEntry[] {
+  const entries: TocEntry[] = [];
+  // 每个打开的 <li> 对应的目录项下标（还没遇到标签时为 null）
+  const liStack: (number | null)[] = [];
+  const re = /<(\/?)(li|a|span)\b([^>]*)>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(navBlock))) {
+    const [, closing, tagRaw, attrs] = m;
+    const tag = tagRaw.toLowerCase();
+    if (tag === "li") {
+      if (closing) liStack.pop();
+      else liStack.push(null);
+      continue;
+    }
+    if (closing || !liStack.length || liStack[liStack.length - 1] != null) continue;
+
+    const end = navBlock.toLowerCase().indexOf(`</${tag}>`, re.lastIndex);
+    if (end < 0) continue;
+    const title = stripTags(navBlock.slice(re.lastIndex, end));
+    re.lastIndex = end + tag.length + 3;
+    const hrefMatch = tag === "a" ? attrs.match(/href\s*=\s*["']([^"']+)["']/i) : null;
+    if (!title) continue;
+
+    let parent: number | null = null;
+    for (let i = liStack.length - 2; i >= 0 && parent == null; i--) parent = liStack[i];
+    liStack[liStack.length - 1] = entries.length;
+    entries.push({
+      title,
+      href: hrefMatch ? resolve(decodeEntities(hrefMatch[1])) : "",
+      depth: parent == null ? 0 : entries[parent].depth + 1,
+      parent,
+    });
   }
 
-  const merged: { title: string; href: string }[] = [];
-  for (let i = 0; i < spine.length; i++) {
-    const href = spine[i];
-    const base = href.split("#")[0];
-
-    let title = titleMap.get(base) || null;
-    if (!title) {
-      try {
-        const abs = safeJoin(bookRootAbs, base);
-        const html = fssync.existsSync(abs) ? fssync.readFileSync(abs, "utf8") : "";
-        const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
-        if (m) title = stripTags(m[1] || "");
-      } catch {
-        // ignore
+  // 无链接的分组：用第一个后代的 href
+  entries.forEach((e, i) => {
+    if (e.href) return;
+    for (let j = i + 1; j < entries.length && entries[j].depth > e.depth; j++) {
+      if (entries[j].href) {
+        e.href = entries[j].href;
+        break;
       }
     }
-    if (!title) {
-      const baseName = path.posix.basename(base || href);
-      title = baseName.replace(/\.[^.]+$/, "") || `Chapter ${i + 1}`;
-    }
-    merged.push({ title, href });
-  }
+  });
+  return compactToc(entries);
+}
 
-  return merged;
+/** 去掉没有 href 的项，并重新映射 parent 下标 */
+function compactToc(entries: TocEntry[]): TocEntry[] {
+  const remap = new Map<number, number>();
+  const out: TocEntry[] = [];
+  entries.forEach((e, i) => {
+    if (!e.href) return;
+    let parent = e.parent;
+    while (parent != null && !remap.has(parent)) parent = entries[parent].parent;
+    remap.set(i, out.length);
+    const p = parent == null ? null : remap.get(parent)!;
+    out.push({ title: e.title, href: e.href, depth: p == null ? 0 : out[p].depth + 1, parent: p });
+  });
+  return out;
 }
 
 async function detectVertical(bookRootAbs: string, spine: string[], opfRelPath: string) {
@@ -348,3 +655,84 @@ async function extractCoverHref(
 
   return undefined;
 }
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (all, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : all;
+    }
+    return NAMED_ENTITIES[ent.toLowerCase()] ?? all;
+  });
+}
+
+/** 提取正文纯文本（去掉 ruby 注音，和阅读器里高亮时的文本保持一致） */
+export function htmlToText(html: string) {
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  const body = bodyMatch ? bodyMatch[1] : html;
+  const cleaned = body
+    .replace(/<(script|style|rt|rp)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    // 块级标签换成空白，行内标签直接去掉（避免把「東<span>京</span>」拆开）
+    .replace(/<\/?(?:p|div|br|hr|h[1-6]|li|tr|td|th|section|article|blockquote|figure|figcaption|header|footer)\b[^>]*>/gi, " ")
+    .replace(/<[^>]+>/g, "");
+  return decodeEntities(cleaned).replace(/\s+/g, " ").trim();
+}
+
+/** 读取每个 spine 文档的纯文本，用于全文索引 */
+export async function extractSpineText(bookRootAbs: string, spine: string[]) {
+  const out: { idx: number; href: string; text: string }[] = [];
+  for (let i = 0; i < spine.length; i++) {
+    const href = spine[i].split("#")[0];
+    try {
+      const html = await readText(safeJoin(bookRootAbs, href));
+      const text = htmlToText(html);
+      if (text) out.push({ idx: i, href, text });
+    } catch {
+      // ignore unreadable documents
+    }
+  }
+  return out;
+}
+
+/** spine 各文档的字数；读不出文字的文档（插图页等）记为 0 */
+export function spineCharCounts(spine: string[], texts: { idx: number; text: string }[]) {
+  const counts = spine.map(() => 0);
+  for (const t of texts) counts[t.idx] = [...t.text.replace(/\s+/g, "")].length;
+  return counts;
+}
+
+const NOTE_RE = /\b(?:epub:type|role)\s*=\s*["'][^"']*\b(?:doc-)?(?:foot|end|rear)notes?\b/i;
+const NOTEREF_RE = /\b(?:epub:type|role)\s*=\s*["'][^"']*\b(?:doc-)?noteref\b/i;
+
+/** 有脚注 / 尾注、自己却没有注释引用的文档算注释页（正文章节末尾带注释的，会有 noteref） */
+export function isNoteDocument(html: string) {
+  return NOTE_RE.test(html) && !NOTEREF_RE.test(html);
+}
+
+export async function findNoteDocs(bookRootAbs: string, spine: string[]) {
+  const out: string[] = [];
+  for (const href of spine) {
+    try {
+      if (isNoteDocument(await readText(safeJoin(bookRootAbs, href.split("#")[0])))) out.push(href);
+    } catch {
+      // ignore unreadable documents
+    }
+  }
+  return out;
+}
+
+/**
+ * 重新导入后，把旧 spine 里的 href 映射到新 spine：
+ * 先找完全相同的路径，再找唯一同名文件（目录结构变了的情况），都没有则返回 null
+ */
+export function remapSpineHref(href: string, spine: string[]): string | null {
+  const [base = "", frag] = href.split("#");
+  const withFrag = (h: string) => (frag !== undefined ? `${h}#${frag}` : h);
+  if (spine.includes(base)) return withFrag(base);
+  const name = path.posix.basename(base);
+  const same = spine.filter((h) => path.posix.basename(h) === name);
+  return same.length === 1 ? withFrag(same[0]) : null;
+}
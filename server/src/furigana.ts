@@ -0,0 +1,86 @@
+import path from "path";
+import kuromoji from "kuromoji";
+import kanji from "kanji";
+import { toHiragana } from "./dict";
+
+/**
+ * 自动注音：kuromoji（自带 IPADIC 词典，离线）切词取读音，再把读音对齐到词里的汉字部分，
+ * 返回相对输入文本的偏移。只计算，不改书的文件；由阅读器把 <ruby> 插进 iframe。
+ */
+
+export type FuriganaSpan = { start: number; end: number; reading: string };
+
+const KANJI = "\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff々〆ヵヶ";
+const KANJI_RE = new RegExp(`[${KANJI}]`);
+const RUN_RE = new RegExp(`[${KANJI}]+|[^${KANJI}]+`, "g");
+
+let tokenizer: Promise<kuromoji.Tokenizer<kuromoji.IpadicFeatures>> | null = null;
+
+/** 词典加载要一两秒、占一百多 MB 内存，第一次用到时才加载 */
+function getTokenizer() {
+  if (!tokenizer) {
+    const dicPath = path.join(path.dirname(require.resolve("kuromoji/package.json")), "dict");
+    tokenizer = new Promise((resolve, reject) => {
+      kuromoji.builder({ dicPath }).build((err, t) => (err ? reject(err) : resolve(t)));
+    });
+    tokenizer.catch(() => (tokenizer = null));
+  }
+  return tokenizer;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 把词的读音分配给其中的汉字段：送假名按字面匹配，汉字段各取一段读音，
+ * 例如 食べる/たべる → 食[た]；取り扱い/とりあつかい → 取[と] 扱[あつか]。对不上时整词注音。
+ */
+export function alignReading(surface: string, reading: string): FuriganaSpan[] {
+  const kana = toHiragana(reading);
+  const runs = surface.match(RUN_RE) ?? [];
+  const pattern = runs.map((r) => (KANJI_RE.test(r) ? "(.+?)" : escapeRegExp(toHiragana(r)))).join("");
+  const m = kana.match(new RegExp(`^${pattern}$`));
+  if (!m) return [{ start: 0, end: surface.length, reading: kana }];
+  const spans: FuriganaSpan[] = [];
+  let at = 0;
+  let group = 1;
+  for (const r of runs) {
+    if (KANJI_RE.test(r)) spans.push({ start: at, end: at + r.length, reading: m[group++]! });
+    at += r.length;
+  }
+  return spans;
+}
+
+export async function furiganaFor(text: string): Promise<FuriganaSpan[]> {
+  if (!KANJI_RE.test(text)) return [];
+  const t = await getTokenizer();
+  const spans: FuriganaSpan[] = [];
+  for (const token of t.tokenize(text)) {
+    const surface = token.surface_form;
+    const reading = token.reading;
+    if (!reading || reading === "*" || !KANJI_RE.test(surface)) continue;
+    const start = token.word_position - 1;
+    for (const s of alignReading(surface, reading)) {
+      spans.push({ start: start + s.start, end: start + s.end, reading: s.reading });
+    }
+  }
+  return spans;
+}
+
+export const JLPT_LEVELS = ["n5", "n4", "n3", "n2", "n1"] as const;
+export type JlptLevel = (typeof JLPT_LEVELS)[number];
+
+let levels: Record<JlptLevel, string> | null = null;
+
+/** 各 JLPT 级别新增的汉字（拼成字符串），阅读器据此判断 ruby 里的汉字是否“超纲” */
+export function kanjiLevels() {
+  levels ??= {
+    n5: kanji.jlpt.n5().join(""),
+    n4: kanji.jlpt.n4().join(""),
+    n3: kanji.jlpt.n3().join(""),
+    n2: kanji.jlpt.n2().join(""),
+    n1: kanji.jlpt.n1().join(""),
+  };
+  return levels;
+}
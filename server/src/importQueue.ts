@@ -0,0 +1,159 @@
+import path from "path";
+import fs from "fs/promises";
+import { nanoid } from "nanoid";
+
+export type ImportStatus = "queued" | "extracting" | "parsed" | "skipped" | "failed";
+export type ImportFile = {
+  name: string;
+  status: ImportStatus;
+  /** failed / skipped 的原因 */
+  error?: string;
+  bookId?: string;
+  title?: string;
+};
+export type ImportJob = {
+  id: string;
+  source: "upload" | "watch";
+  createdAt: number;
+  finishedAt: number | null;
+  files: ImportFile[];
+};
+
+type Task = {
+  job: ImportJob;
+  file: ImportFile;
+  path: string;
+  handler: ImportHandler;
+  /** 处理结束后按最终状态（parsed / skipped / failed）清理源文件 */
+  cleanup: (status: ImportStatus) => Promise<void>;
+};
+
+/** 处理单个文件：负责把 status 推进到 extracting / parsed / skipped，抛错即 failed */
+export type ImportHandler = (filePath: string, file: ImportFile) => Promise<void>;
+
+const MAX_JOBS = 50;
+/** 监视目录里会导入的文件：EPUB、漫画图片压缩包、纯文本和 Markdown */
+const IMPORT_EXT_RE = /\.(epub|cbz|txt|md|markdown)$/i;
+
+/** 串行导入队列（解包和建索引都很吃 CPU，一次只处理一本） */
+export function initImportQueue() {
+  const jobs = new Map<string, ImportJob>();
+  const pending: Task[] = [];
+  let running = false;
+
+  function enqueue(
+    source: ImportJob["source"],
+    items: { name: string; path: string; cleanup: Task["cleanup"] }[],
+    handler: ImportHandler
+  ) {
+    const job: ImportJob = { id: nanoid(), source, createdAt: Date.now(), finishedAt: null, files: [] };
+    for (const it of items) {
+      const file: ImportFile = { name: it.name, status: "queued" };
+      job.files.push(file);
+      pending.push({ job, file, path: it.path, handler, cleanup: it.cleanup });
+    }
+    jobs.set(job.id, job);
+    // 只保留最近的任务记录
+    for (const id of jobs.keys()) {
+      if (jobs.size <= MAX_JOBS) break;
+      if (jobs.get(id)!.finishedAt !== null) jobs.delete(id);
+    }
+    void drain();
+    return job;
+  }
+
+  async function drain() {
+    if (running) return;
+    running = true;
+    try {
+      for (let task = pending.shift(); task; task = pending.shift()) {
+        try {
+          await task.handler(task.path, task.file);
+        } catch (e: any) {
+          task.file.status = "failed";
+          task.file.error = e?.message ?? String(e);
+        }
+        await task.cleanup(task.file.status).catch(() => {});
+        if (task.job.files.every((f) => f.status !== "queued" && f.status !== "extracting")) {
+          task.job.finishedAt = Date.now();
+        }
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  function getJob(id: string) {
+    return jobs.get(id) ?? null;
+  }
+
+  function listJobs() {
+    return [...jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  return { enqueue, getJob, listJobs };
+}
+
+export type ImportQueue = ReturnType<typeof initImportQueue>;
+
+/**
+ * 监视目录：定时扫描 *.epub / *.cbz，文件大小两次扫描不变（已复制完）才入队。
+ * 导入成功才删除源文件；重复跳过的移到 skipped/、失败的移到 failed/ 子目录，文件不会丢，也不会反复重试。
+ */
+export function watchImportDir(dir: string, queue: ImportQueue, handler: ImportHandler, intervalMs = 3000) {
+  const failedDir = path.join(dir, "failed");
+  const skippedDir = path.join(dir, "skipped");
+  const lastSize = new Map<string, number>();
+  const inFlight = new Set<string>();
+
+  async function scan() {
+    await fs.mkdir(failedDir, { recursive: true });
+    await fs.mkdir(skippedDir, { recursive: true });
+    const names = (await fs.readdir(dir, { withFileTypes: true }))
+      .filter((d) => d.isFile() && IMPORT_EXT_RE.test(d.name) && !inFlight.has(d.name))
+      .map((d) => d.name);
+
+    const ready: { name: string; path: string; cleanup: Task["cleanup"] }[] = [];
+    for (const name of names) {
+      const abs = path.join(dir, name);
+      const { size } = await fs.stat(abs);
+      if (lastSize.get(name) !== size) {
+        lastSize.set(name, size);
+        continue;
+      }
+      lastSize.delete(name);
+      inFlight.add(name);
+      ready.push({
+        name,
+        path: abs,
+        cleanup: async (status) => {
+          try {
+            // 导入流程可能已经把文件移走（保留为原始 EPUB）
+            if (status === "parsed") {
+              await fs.rm(abs, { force: true });
+            } else {
+              const to = status === "skipped" ? skippedDir : failedDir;
+              await fs.rename(abs, path.join(to, `${Date.now()}-${name}`));
+            }
+          } finally {
+            inFlight.delete(name);
+          }
+        },
+      });
+    }
+    if (ready.length) queue.enqueue("watch", ready, handler);
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  const tick = () => {
+    scan()
+      .catch((e) => console.error("import watch:", e?.message ?? e))
+      .finally(() => {
+        timer = setTimeout(tick, intervalMs);
+      });
+  };
+  tick();
+  return () => {
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -3,15 +3,51 @@ import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
 import fssync from "fs";
+import crypto from "crypto";
 import cors from "cors";
 import extract from "extract-zip";
+import { ZipFile } from "yazl";
 import { nanoid } from "nanoid";
 import mime from "mime";
-import { findOpfPath, parseOpf, safeJoin } from "./epub";
-import { initDb } from "./db";
+import {
+  BookManifest,
+  extractSpineText,
+  findNoteDocs,
+  findOpfPath,
+  parseOpf,
+  primaryAuthors,
+  remapSpineHref,
+  safeJoin,
+  spineCharCounts,
+} from "./epub";
+import { BACKUP_VERSION, BookRow, BookSort, LibraryBackup, VOCAB_TEXT_FIELDS, VocabPatch, initDb } from "./db";
+import { DEFAULT_ANKI_DECK, DEFAULT_ANKI_FIELDS, parseFieldMapping, toAnkiTsv, writeAnkiCollection } from "./anki";
+import { lookupText, readDictIndex, readTermBanks } from "./dict";
+import { furiganaFor, kanjiLevels } from "./furigana";
+import { DEFAULT_READER_SETTINGS, parseCustomThemes, parseSettingsPatch } from "./settings";
+import { ImportFile, initImportQueue, watchImportDir } from "./importQueue";
+import { buildComicManifest, listComicImages } from "./comic";
+import {
+  DEFAULT_CHAPTER_PATTERNS,
+  isTextFile,
+  parseTextImportOptions,
+  previewText,
+  writeTextBook,
+  type TextImportOptions,
+} from "./text";
+import { bookCharPosition, pickSpeed, readingPosition, speedSample } from "./progress";
+import {
+  OPDS_ACQ_TYPE,
+  OPDS_NAV_TYPE,
+  OPENSEARCH_TYPE,
+  acquisitionFeed,
+  navigationFeed,
+  openSearchDescription,
+} from "./opds";
 
 const app = express();
-app.use(express.json());
+// 自动注音请求会带上整章文本，默认的 100kb 不够
+app.use(express.json({ limit: "10mb" }));
 
 // 允许前端 5173 调用（你也可以换成 Vite proxy，就不用 CORS）
 app.use(cors({ origin: ["http://127.0.0.1:5173", "http://localhost:5173"], credentials: false }));
@@ -19,15 +55,34 @@ app.use(cors({ origin: ["http://127.0.0.1:5173", "http://localhost:5173"], crede
 const DATA_DIR = path.resolve(process.cwd(), "data");
 const TMP_DIR = path.join(DATA_DIR, "tmp");
 const BOOKS_DIR = path.join(DATA_DIR, "books");
+// 导入时保留的原始 EPUB（备份用）：originals/<bookId>.epub；图片压缩包也用这个名字存
+const ORIGINALS_DIR = path.join(DATA_DIR, "originals");
+// 可选的监视目录（相对 DATA_DIR），放进去的 .epub / .cbz / .txt / .md 会自动导入，例如 IMPORT_WATCH_DIR=inbox
+const WATCH_DIR = process.env.IMPORT_WATCH_DIR ? safeJoin(DATA_DIR, process.env.IMPORT_WATCH_DIR) : null;
 
 async function ensureDirs() {
   await fs.mkdir(DATA_DIR, { recursive: true });
   await fs.mkdir(TMP_DIR, { recursive: true });
   await fs.mkdir(BOOKS_DIR, { recursive: true });
+  await fs.mkdir(ORIGINALS_DIR, { recursive: true });
+}
+
+function originalPath(bookId: string) {
+  return path.join(ORIGINALS_DIR, `${bookId}.epub`);
+}
+
+/**
+ * 把上传的文件移到 originals/（替换旧版本），调用方之后的 unlink 会变成空操作。
+ * 从 txt / md 生成的书（generated）原文件不是 EPUB：删掉旧的，下载、备份时由 ensureOriginal 从书目录打包。
+ */
+async function keepOriginal(filePath: string, bookId: string, generated = false) {
+  if (generated) await fs.rm(originalPath(bookId), { force: true });
+  else await fs.rename(filePath, originalPath(bookId));
 }
 
 const upload = multer({ dest: TMP_DIR });
-let db: ReturnType<typeof initDb> | null = null;
+type Db = ReturnType<typeof initDb>;
+let db: Db | null = null;
 
 async function ensureDb() {
   await ensureDirs();
@@ -35,47 +90,466 @@ async function ensureDb() {
   return db;
 }
 
+/** manifest.metadata → books 表里的元数据列 */
+function bookMetaColumns(manifest: BookManifest): Partial<BookRow> {
+  const meta = manifest.metadata;
+  const authors = primaryAuthors(meta);
+  return {
+    author: authors.map((a) => a.name).join(", ") || null,
+    authorSort: authors[0]?.fileAs ?? authors[0]?.name ?? null,
+    language: meta?.language ?? null,
+    publisher: meta?.publisher ?? null,
+    pubDate: meta?.date ?? null,
+    description: meta?.description ?? null,
+    identifier: meta?.identifier ?? null,
+    series: meta?.series ?? null,
+    seriesIndex: meta?.seriesIndex ?? null,
+  };
+}
+
+const BOOK_SORTS: BookSort[] = ["title", "author", "series", "opened", "added"];
+
+/** 上传的文件名去掉扩展名，图片压缩包、纯文本没有标题时用 */
+function titleFromFileName(name: string) {
+  return path.parse(name).name.trim() || undefined;
+}
+
+/**
+ * 解包上传的 EPUB 到临时目录并解析；成功后由 installBook 移动到 BOOKS_DIR。
+ * 没有 OPF、只有图片的压缩包（漫画 .cbz）生成一份固定版式的 manifest，fallbackTitle 是它没有 ComicInfo 标题时用的标题。
+ * 给了 text 时文件是 txt / md：按选项转码、分章，在 workDir 里生成 EPUB 目录后照常解析。
+ */
+async function unpackEpub(filePath: string, fallbackTitle?: string, text?: { name: string; options: TextImportOptions }) {
+  const workDir = path.join(TMP_DIR, nanoid());
+  try {
+    await fs.mkdir(workDir, { recursive: true });
+    if (text) await writeTextBook(workDir, await fs.readFile(filePath), text.name, text.options, fallbackTitle);
+    // 解包 EPUB（zip）到 workDir
+    else await extract(filePath, { dir: workDir });
+
+    // 找 OPF 并解析；图片压缩包没有 OPF
+    const comic = await listComicImages(workDir);
+    const manifest = comic
+      ? await buildComicManifest(workDir, comic, fallbackTitle)
+      : await parseOpf(workDir, await findOpfPath(workDir));
+    const texts = await extractSpineText(workDir, manifest.spine);
+    manifest.spineChars = spineCharCounts(manifest.spine, texts);
+    manifest.noteDocs = await findNoteDocs(workDir, manifest.spine);
+
+    // 保存 manifest.json（MVP）
+    await fs.writeFile(path.join(workDir, "manifest.json"), JSON.stringify(manifest, null, 2), "utf8");
+    return { workDir, manifest, texts, generated: !!text };
+  } catch (e) {
+    await fs.rm(workDir, { recursive: true, force: true });
+    throw e;
+  }
+}
+
+async function hashFile(filePath: string) {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fssync.createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+/** 用解包好的目录替换（或新建）书籍目录，并写入数据库 */
+async function installBook(
+  db: Db,
+  bookId: string,
+  unpacked: Awaited<ReturnType<typeof unpackEpub>>,
+  contentHash: string
+) {
+  const { workDir, manifest, texts } = unpacked;
+  const bookRoot = path.join(BOOKS_DIR, bookId);
+  // 旧目录先挪开，新目录放好后再删；放不进去时把旧的挪回来，书不会丢
+  const aside = path.join(TMP_DIR, `old-${nanoid()}`);
+  const hadOld = await fs.rename(bookRoot, aside).then(
+    () => true,
+    (e: any) => {
+      if (e?.code === "ENOENT") return false;
+      throw e;
+    }
+  );
+  try {
+    await fs.rename(workDir, bookRoot);
+  } catch (e) {
+    if (hadOld) await fs.rename(aside, bookRoot).catch(() => {});
+    throw e;
+  }
+  if (hadOld) await fs.rm(aside, { recursive: true, force: true });
+
+  db.upsertBook(
+    {
+      id: bookId,
+      title: manifest.title,
+      opfPath: manifest.opfPath,
+      coverHref: manifest.coverHref ?? null,
+      createdAt: Date.now(),
+      ...bookMetaColumns(manifest),
+      contentHash,
+    },
+    manifest.chapters,
+    { creators: manifest.metadata?.creators ?? [], subjects: manifest.metadata?.subjects ?? [] }
+  );
+  db.indexBookText(bookId, texts);
+}
+
+type RemapReport = {
+  remapped: { kind: "progress" | "bookmark" | "highlight"; id: number | null; from: string; to: string }[];
+  missing: { kind: "progress" | "bookmark" | "highlight"; id: number | null; href: string }[];
+};
+
+/** 新 spine 里文件名变了时，把进度 / 书签 / 高亮的 href 指到对应的新文件 */
+function remapPositions(db: Db, bookId: string, spine: string[]): RemapReport {
+  const report: RemapReport = { remapped: [], missing: [] };
+  const items: { kind: "progress" | "bookmark" | "highlight"; id: number | null; href: string }[] = [];
+  const progress = db.getProgress(bookId);
+  if (progress) items.push({ kind: "progress", id: null, href: progress.href });
+  for (const b of db.listBookmarks(bookId)) items.push({ kind: "bookmark", id: b.id, href: b.href });
+  for (const h of db.listHighlights(bookId)) items.push({ kind: "highlight", id: h.id, href: h.href });
+
+  for (const it of items) {
+    const to = remapSpineHref(it.href, spine);
+    if (to === null) {
+      report.missing.push(it);
+    } else if (to !== it.href) {
+      db.updatePositionHref(it.kind, bookId, it.id, to);
+      report.remapped.push({ kind: it.kind, id: it.id, from: it.href, to });
+    }
+  }
+  return report;
+}
+
+const DUPLICATE_ACTIONS = ["new", "update"] as const;
+type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+function parseDuplicateAction(x: unknown): DuplicateAction | undefined | null {
+  if (x === undefined || x === "") return undefined;
+  return DUPLICATE_ACTIONS.includes(x as DuplicateAction) ? (x as DuplicateAction) : null;
+}
+
+/**
+ * 单文件导入流程（上传、批量队列、监视目录共用）。不删除源文件，由调用方处理。
+ * 同一本书（identifier 或文件哈希相同）在未指定 onDuplicate 时不导入，返回 duplicate。
+ * txt / md 按 textOptions 分章，没给时用默认的编码检测和章节标题。
+ */
+async function importEpubFile(
+  db: Db,
+  filePath: string,
+  name: string,
+  onDuplicate?: DuplicateAction,
+  onExtracting?: () => void,
+  textOptions?: TextImportOptions
+) {
+  const contentHash = await hashFile(filePath);
+  onExtracting?.();
+  const unpacked = await unpackEpub(filePath, titleFromFileName(name), textSource(name, textOptions));
+  const { manifest } = unpacked;
+
+  const duplicate = db.findDuplicate(manifest.metadata?.identifier, contentHash);
+  if (duplicate && onDuplicate === undefined) {
+    await fs.rm(unpacked.workDir, { recursive: true, force: true });
+    return { duplicate };
+  }
+
+  if (duplicate && onDuplicate === "update") {
+    await installBook(db, duplicate.id, unpacked, contentHash);
+    await keepOriginal(filePath, duplicate.id, unpacked.generated);
+    const remap = remapPositions(db, duplicate.id, manifest.spine);
+    return { id: duplicate.id, ...manifest, updated: true, remap };
+  }
+
+  const bookId = nanoid();
+  await installBook(db, bookId, unpacked, contentHash);
+  await keepOriginal(filePath, bookId, unpacked.generated);
+  return { id: bookId, ...manifest };
+}
+
+/** 文件名是 txt / md 时 unpackEpub 的 text 参数 */
+function textSource(name: string, options?: TextImportOptions) {
+  if (!isTextFile(name)) return undefined;
+  return { name, options: options ?? { encoding: "auto", patterns: DEFAULT_CHAPTER_PATTERNS } };
+}
+
+// multer 按 latin1 解码文件名
+function uploadName(file: Express.Multer.File) {
+  return Buffer.from(file.originalname, "latin1").toString("utf8");
+}
+
+const importQueue = initImportQueue();
+
+/** 队列里的单个文件：重复的书记为 skipped */
+async function importQueued(filePath: string, file: ImportFile, onDuplicate?: DuplicateAction) {
+  const db = await ensureDb();
+  const r = await importEpubFile(db, filePath, file.name, onDuplicate, () => {
+    file.status = "extracting";
+  });
+  if ("duplicate" in r && r.duplicate) {
+    file.status = "skipped";
+    file.error = `already on the shelf: ${r.duplicate.title}`;
+    file.bookId = r.duplicate.id;
+    return;
+  }
+  file.status = "parsed";
+  file.bookId = r.id;
+  file.title = r.title;
+}
+
 app.post("/api/books/import", upload.single("file"), async (req, res) => {
   try {
     const db = await ensureDb();
     if (!req.file) return res.status(400).json({ error: "missing file" });
 
-    const bookId = nanoid();
-    const bookRoot = path.join(BOOKS_DIR, bookId);
-    await fs.mkdir(bookRoot, { recursive: true });
+    const onDuplicate = parseDuplicateAction(req.body?.onDuplicate ?? req.query.onDuplicate);
+    const textOptions = parseTextImportOptions(req.body);
+    if (onDuplicate === null || !textOptions) {
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json({ error: "invalid payload" });
+    }
 
-    // 解包 EPUB（zip）到 bookRoot
-    await extract(req.file.path, { dir: bookRoot });
-    await fs.unlink(req.file.path).catch(() => {});
+    let r;
+    try {
+      r = await importEpubFile(db, req.file.path, uploadName(req.file), onDuplicate, undefined, textOptions);
+    } finally {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+    // 由客户端决定更新还是另存一份
+    if ("duplicate" in r) return res.status(409).json({ error: "duplicate", duplicate: r.duplicate });
+    res.json(r);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
 
-    // 找 OPF 并解析
-    const opfRel = await findOpfPath(bookRoot);
-    const manifest = await parseOpf(bookRoot, opfRel);
+// 批量导入：立即返回任务，文件在后台队列里逐个处理；重复的书默认跳过
+app.post("/api/books/import/batch", upload.array("files"), async (req, res) => {
+  try {
+    await ensureDb();
+    const files = (req.files ?? []) as Express.Multer.File[];
+    if (!files.length) return res.status(400).json({ error: "missing file" });
 
-    // 保存 manifest.json（MVP）
-    await fs.writeFile(path.join(bookRoot, "manifest.json"), JSON.stringify(manifest, null, 2), "utf8");
-
-    db.upsertBook(
-      {
-        id: bookId,
-        title: manifest.title,
-        opfPath: manifest.opfPath,
-        coverHref: manifest.coverHref ?? null,
-        createdAt: Date.now(),
-      },
-      manifest.chapters
+    const onDuplicate = parseDuplicateAction(req.body?.onDuplicate ?? req.query.onDuplicate);
+    if (onDuplicate === null) {
+      await Promise.all(files.map((f) => fs.unlink(f.path).catch(() => {})));
+      return res.status(400).json({ error: "invalid payload" });
+    }
+
+    const job = importQueue.enqueue(
+      "upload",
+      files.map((f) => ({
+        name: uploadName(f),
+        path: f.path,
+        cleanup: () => fs.unlink(f.path).catch(() => {}),
+      })),
+      (filePath, file) => importQueued(filePath, file, onDuplicate)
+    );
+    res.json(job);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// txt / md 导入前预览：检测到的编码和按当前章节标题规则分出的章，调整后再带同样的字段导入
+app.post("/api/books/import/text/preview", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).json({ error: "missing file" });
+    const name = uploadName(req.file);
+    const options = parseTextImportOptions(req.body);
+    try {
+      if (!options || !isTextFile(name)) return res.status(400).json({ error: "invalid payload" });
+      res.json(await previewText(await fs.readFile(req.file.path), name, options, titleFromFileName(name)));
+    } finally {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/api/import/jobs", (_, res) => {
+  res.json(importQueue.listJobs());
+});
+
+app.get("/api/import/jobs/:jobId", (req, res) => {
+  const job = importQueue.getJob(req.params.jobId);
+  if (!job) return res.status(404).json({ error: "not found" });
+  res.json(job);
+});
+
+// 用新文件替换已有的书，保留进度、书签、高亮、书架和标签
+app.post("/api/books/:id/reimport", upload.single("file"), async (req, res) => {
+  try {
+    const db = await ensureDb();
+    if (!req.file) return res.status(400).json({ error: "missing file" });
+    const id = String(req.params.id);
+    const textOptions = parseTextImportOptions(req.body);
+    if (!db.getBook(id) || !textOptions) {
+      await fs.unlink(req.file.path).catch(() => {});
+      return textOptions ? res.status(404).json({ error: "not found" }) : res.status(400).json({ error: "invalid payload" });
+    }
+
+    let manifest;
+    try {
+      const name = uploadName(req.file);
+      const contentHash = await hashFile(req.file.path);
+      const unpacked = await unpackEpub(req.file.path, titleFromFileName(name), textSource(name, textOptions));
+      await installBook(db, id, unpacked, contentHash);
+      await keepOriginal(req.file.path, id, unpacked.generated);
+      manifest = unpacked.manifest;
+    } finally {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+    const remap = remapPositions(db, id, manifest.spine);
+    res.json({ id, ...manifest, updated: true, remap });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/api/books", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+    const sort = str(req.query.sort) as BookSort | undefined;
+    if (sort && !BOOK_SORTS.includes(sort)) return res.status(400).json({ error: "invalid sort" });
+    const collection = str(req.query.collection) ? Number(req.query.collection) : undefined;
+    if (collection !== undefined && !Number.isInteger(collection)) {
+      return res.status(400).json({ error: "invalid collection" });
+    }
+    res.json(
+      db.listBooks({
+        q: str(req.query.q),
+        sort,
+        author: str(req.query.author),
+        language: str(req.query.language),
+        subject: str(req.query.subject),
+        collection,
+        tag: str(req.query.tag),
+      })
     );
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+/** 标签：去掉首尾空白、去重、丢掉空串 */
+function parseTags(x: unknown): string[] | null {
+  if (!Array.isArray(x) || !x.every((t) => typeof t === "string")) return null;
+  return [...new Set((x as string[]).map((t) => t.trim()).filter(Boolean))];
+}
+
+function parseBookIds(x: unknown): string[] | null {
+  if (!Array.isArray(x) || !x.length || !x.every((id) => typeof id === "string" && id)) return null;
+  return x as string[];
+}
+
+app.get("/api/collections", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    res.json(db.listCollections());
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.post("/api/collections", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+    if (!name) return res.status(400).json({ error: "invalid payload" });
+    const id = db.createCollection(name, Date.now());
+    res.json({ ok: true, id });
+  } catch (e: any) {
+    if (e?.code === "SQLITE_CONSTRAINT_UNIQUE") return res.status(409).json({ error: "collection already exists" });
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/collections/:cid", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+    if (!name) return res.status(400).json({ error: "invalid payload" });
+    const changes = db.renameCollection(Number(req.params.cid), name);
+    if (!changes) return res.status(404).json({ error: "not found" });
+    res.json({ ok: true });
+  } catch (e: any) {
+    if (e?.code === "SQLITE_CONSTRAINT_UNIQUE") return res.status(409).json({ error: "collection already exists" });
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.delete("/api/collections/:cid", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const changes = db.deleteCollection(Number(req.params.cid));
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// body: { bookIds, from? } — with `from`, the books are moved out of that collection
+app.post("/api/collections/:cid/books", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const bookIds = parseBookIds(req.body?.bookIds);
+    const from = req.body?.from;
+    if (!bookIds || (from != null && !Number.isInteger(from))) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    const cid = Number(req.params.cid);
+    if (!db.listCollections().some((c) => c.id === cid)) return res.status(404).json({ error: "not found" });
+    if (bookIds.some((id) => !db.getBook(id))) return res.status(400).json({ error: "unknown book id" });
+    const changes = db.addToCollection(cid, bookIds, Date.now(), from ?? undefined);
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.delete("/api/collections/:cid/books/:id", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const changes = db.removeFromCollection(Number(req.params.cid), req.params.id);
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/books/:id/tags", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const tags = parseTags(req.body?.tags);
+    if (!tags) return res.status(400).json({ error: "invalid payload" });
+    if (!db.getBook(req.params.id)) return res.status(404).json({ error: "not found" });
+    db.setTags(req.params.id, tags);
+    res.json({ ok: true, tags });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
 
-    res.json({ id: bookId, ...manifest });
+// Bulk tagging: body { bookIds, add?, remove? }
+app.post("/api/tags/apply", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const bookIds = parseBookIds(req.body?.bookIds);
+    const add = parseTags(req.body?.add ?? []);
+    const remove = parseTags(req.body?.remove ?? []);
+    if (!bookIds || !add || !remove) return res.status(400).json({ error: "invalid payload" });
+    if (bookIds.some((id) => !db.getBook(id))) return res.status(400).json({ error: "unknown book id" });
+    db.applyTags(bookIds, add, remove);
+    res.json({ ok: true });
   } catch (e: any) {
     res.status(500).json({ error: e?.message ?? String(e) });
   }
 });
 
-app.get("/api/books", async (_, res) => {
+app.get("/api/books/facets", async (_, res) => {
   try {
     const db = await ensureDb();
-    res.json(db.listBooks());
+    res.json(db.listFacets());
   } catch (e: any) {
     res.status(500).json({ error: e?.message ?? String(e) });
   }
@@ -102,12 +576,30 @@ app.put("/api/books/:id/opened", async (req, res) => {
   }
 });
 
+/** 可选的定位字段：textOffset（非负整数）、progression（0..1） */
+function parseLocator(body: any): { textOffset: number | null; progression: number | null } | null {
+  const { textOffset, progression } = body ?? {};
+  if (textOffset != null && !(Number.isInteger(textOffset) && textOffset >= 0)) return null;
+  if (progression != null && !(typeof progression === "number" && progression >= 0 && progression <= 1)) return null;
+  return { textOffset: textOffset ?? null, progression: progression ?? null };
+}
+
+/** 全书进度和剩余时间（字数未知、href 不在 spine 里时为 null） */
+async function positionOf(db: Db, bookId: string, href: string, progression: number | null) {
+  const { spine, spineChars } = await bookSpineChars(bookId);
+  const pos = bookCharPosition(spine, spineChars, href, progression);
+  if (!pos) return null;
+  const p = db.getProgress(bookId);
+  const speed = pickSpeed({ chars: p?.readChars ?? 0, ms: p?.readMs ?? 0 }, db.readingSpeed());
+  return readingPosition(pos, speed);
+}
+
 app.get("/api/books/:id/progress", async (req, res) => {
   try {
     const db = await ensureDb();
     const p = db.getProgress(req.params.id);
     if (!p) return res.json({ ok: false });
-    res.json({ ok: true, progress: p });
+    res.json({ ok: true, progress: p, position: await positionOf(db, req.params.id, p.href, p.progression ?? null) });
   } catch (e: any) {
     res.status(500).json({ error: e?.message ?? String(e) });
   }
@@ -117,15 +609,67 @@ app.put("/api/books/:id/progress", async (req, res) => {
   try {
     const db = await ensureDb();
     const { href, scrollX, scrollY } = req.body ?? {};
-    if (!href || typeof scrollX !== "number" || typeof scrollY !== "number") {
+    const locator = parseLocator(req.body);
+    if (!href || typeof scrollX !== "number" || typeof scrollY !== "number" || !locator) {
       return res.status(400).json({ error: "invalid payload" });
     }
+    if (!db.getBook(req.params.id)) return res.status(404).json({ error: "not found" });
+    const now = Date.now();
+    const prev = db.getProgress(req.params.id);
+    const { spine, spineChars } = await bookSpineChars(req.params.id);
+    const pos = bookCharPosition(spine, spineChars, href, locator.progression);
+    // 上次的字数位置由上次的全书进度折算
+    const prevChars = prev?.bookProgression != null && pos ? prev.bookProgression * pos.totalChars : null;
+    const sample = pos ? speedSample(prevChars, prev?.updatedAt ?? null, pos.readChars, now) : { chars: 0, ms: 0 };
     db.upsertProgress({
       bookId: req.params.id,
       href,
       scrollX,
       scrollY,
-      updatedAt: Date.now(),
+      ...locator,
+      bookProgression: pos ? pos.readChars / pos.totalChars : null,
+      readChars: (prev?.readChars ?? 0) + sample.chars,
+      readMs: (prev?.readMs ?? 0) + sample.ms,
+      updatedAt: now,
+    });
+    res.json({ ok: true, position: await positionOf(db, req.params.id, href, locator.progression) });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+/** 0..1 或不传 */
+function optionalProgression(x: unknown) {
+  return typeof x === "number" && x >= 0 && x <= 1 ? x : null;
+}
+
+// 阅读会话：阅读器按 clientId 反复上报同一个会话（定时、离开页面时），服务端覆盖
+app.post("/api/books/:id/sessions", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const { clientId, href, chapterTitle, startedAt, endedAt, activeMs, chars } = req.body ?? {};
+    const int = (x: unknown) => Number.isInteger(x) && (x as number) >= 0;
+    if (typeof clientId !== "string" || !/^[\w-]{8,64}$/.test(clientId) || typeof href !== "string" || !href) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    if (!int(startedAt) || !int(endedAt) || !int(activeMs) || !int(chars) || endedAt < startedAt) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    const book = db.getBook(req.params.id);
+    if (!book) return res.status(404).json({ error: "not found" });
+    db.upsertSession({
+      clientId,
+      bookId: book.id,
+      bookTitle: book.title,
+      href,
+      chapterTitle: typeof chapterTitle === "string" && chapterTitle ? chapterTitle : null,
+      startedAt,
+      endedAt,
+      // 闲置检测在前端；这里只保证不超过会话本身的时长
+      activeMs: Math.min(activeMs, endedAt - startedAt),
+      chars,
+      startProgression: optionalProgression(req.body.startProgression),
+      endProgression: optionalProgression(req.body.endProgression),
     });
     res.json({ ok: true });
   } catch (e: any) {
@@ -133,6 +677,27 @@ app.put("/api/books/:id/progress", async (req, res) => {
   }
 });
 
+app.get("/api/books/:id/sessions", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    res.json(db.listSessions(req.params.id));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 统计：tz 为浏览器的 getTimezoneOffset()（分钟），按本地日期分组
+app.get("/api/stats", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const tz = Number(req.query.tz ?? 0);
+    if (!Number.isInteger(tz) || Math.abs(tz) > 14 * 60) return res.status(400).json({ error: "invalid tz" });
+    res.json({ days: db.statsDays(tz), books: db.statsBooks() });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
 app.get("/api/books/:id/bookmarks", async (req, res) => {
   try {
     const db = await ensureDb();
@@ -146,7 +711,8 @@ app.post("/api/books/:id/bookmarks", async (req, res) => {
   try {
     const db = await ensureDb();
     const { href, scrollX, scrollY, title } = req.body ?? {};
-    if (!href || typeof scrollX !== "number" || typeof scrollY !== "number" || !title) {
+    const locator = parseLocator(req.body);
+    if (!href || typeof scrollX !== "number" || typeof scrollY !== "number" || !title || !locator) {
       return res.status(400).json({ error: "invalid payload" });
     }
     const id = db.addBookmark({
@@ -154,6 +720,7 @@ app.post("/api/books/:id/bookmarks", async (req, res) => {
       href,
       scrollX,
       scrollY,
+      ...locator,
       title,
       createdAt: Date.now(),
     });
@@ -173,53 +740,899 @@ app.delete("/api/books/:id/bookmarks/:bmId", async (req, res) => {
   }
 });
 
-app.get("/api/books/:id/manifest", async (req, res) => {
+async function readManifest(bookId: string): Promise<BookManifest> {
+  const txt = await fs.readFile(path.join(BOOKS_DIR, bookId, "manifest.json"), "utf8");
+  return JSON.parse(txt);
+}
+
+/** 各 spine 文档的字数；旧书的 manifest 里没有，第一次用到时算出来写回 */
+async function bookSpineChars(bookId: string) {
+  const manifest = await readManifest(bookId);
+  if (!manifest.spineChars) {
+    const texts = await extractSpineText(path.join(BOOKS_DIR, bookId), manifest.spine);
+    manifest.spineChars = spineCharCounts(manifest.spine, texts);
+    await fs.writeFile(path.join(BOOKS_DIR, bookId, "manifest.json"), JSON.stringify(manifest, null, 2), "utf8");
+  }
+  return { spine: manifest.spine, spineChars: manifest.spineChars };
+}
+
+const HIGHLIGHT_COLORS = ["yellow", "green", "blue", "pink", "purple"];
+
+app.get("/api/books/:id/highlights", async (req, res) => {
   try {
-    const bookRoot = path.join(BOOKS_DIR, req.params.id);
-    const p = path.join(bookRoot, "manifest.json");
-    const txt = await fs.readFile(p, "utf8");
-    res.type("application/json").send(txt);
-  } catch {
-    res.status(404).json({ error: "not found" });
+    const db = await ensureDb();
+    res.json(db.listHighlights(req.params.id));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
   }
 });
 
-app.delete("/api/books/:id", async (req, res) => {
+app.post("/api/books/:id/highlights", async (req, res) => {
   try {
     const db = await ensureDb();
-    const id = req.params.id;
-    const bookRoot = path.join(BOOKS_DIR, id);
-    db.deleteBook(id);
-    await fs.rm(bookRoot, { recursive: true, force: true });
+    const { href, startOffset, endOffset, text, prefix, suffix, color, note } = req.body ?? {};
+    if (
+      !href ||
+      typeof startOffset !== "number" ||
+      typeof endOffset !== "number" ||
+      endOffset <= startOffset ||
+      !text ||
+      !HIGHLIGHT_COLORS.includes(color)
+    ) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    const now = Date.now();
+    const id = db.addHighlight({
+      bookId: req.params.id,
+      href,
+      startOffset,
+      endOffset,
+      text,
+      prefix: typeof prefix === "string" ? prefix : "",
+      suffix: typeof suffix === "string" ? suffix : "",
+      color,
+      note: typeof note === "string" && note ? note : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    res.json({ ok: true, id });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/books/:id/highlights/:hlId", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const { color, note } = req.body ?? {};
+    if (color !== undefined && !HIGHLIGHT_COLORS.includes(color)) {
+      return res.status(400).json({ error: "invalid color" });
+    }
+    if (note !== undefined && note !== null && typeof note !== "string") {
+      return res.status(400).json({ error: "invalid note" });
+    }
+    const changes = db.updateHighlight(
+      req.params.id,
+      Number(req.params.hlId),
+      { color, note: note === "" ? null : note },
+      Date.now()
+    );
+    if (!changes) return res.status(404).json({ error: "not found" });
     res.json({ ok: true });
   } catch (e: any) {
     res.status(500).json({ error: e?.message ?? String(e) });
   }
 });
 
-// 资源访问：/api/books/:id/resource/<relPath>
-// Use a RegExp route to capture the rest of the path in Express 5
-app.get(/^\/api\/books\/([^/]+)\/resource\/(.*)$/, async (req, res) => {
+app.delete("/api/books/:id/highlights/:hlId", async (req, res) => {
   try {
-    const bookRoot = path.join(BOOKS_DIR, req.params[0]);
-    const rel = req.params[1];
-    const abs = safeJoin(bookRoot, rel);
+    const db = await ensureDb();
+    const changes = db.deleteHighlight(req.params.id, Number(req.params.hlId));
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
 
-    if (!fssync.existsSync(abs)) return res.status(404).send("not found");
+/** 旧书导入时还没有全文索引，搜索前补建 */
+async function ensureBookText(db: Db, id: string) {
+  if (db.hasBookText(id)) return;
+  const manifest = await readManifest(id);
+  db.indexBookText(id, await extractSpineText(path.join(BOOKS_DIR, id), manifest.spine));
+}
 
-    const ct = mime.getType(abs) || "application/octet-stream";
-    res.setHeader("Content-Type", ct);
+let textBackfill: Promise<void> | null = null;
+
+/** 全库搜索前把缺索引的书都补上；每次启动只补一遍，没有文字的书（漫画）不会每次搜索都重读 */
+function backfillBookText(db: Db) {
+  textBackfill ??= (async () => {
+    for (const b of db.listBooks()) await ensureBookText(db, b.id).catch(() => {});
+  })();
+  return textBackfill;
+}
 
-    // 简单流式输出（MVP）。后续要 Range 再加。
-    fssync.createReadStream(abs).pipe(res);
+app.get("/api/books/:id/search", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const q = String(req.query.q ?? "").trim();
+    if (!q) return res.status(400).json({ error: "missing q" });
+    const id = req.params.id;
+    if (!db.getBook(id)) return res.status(404).json({ error: "not found" });
+    await ensureBookText(db, id);
+    res.json(db.searchText(q, { bookId: id }));
   } catch (e: any) {
-    res.status(404).json({ error: e?.message ?? "not found" });
+    res.status(500).json({ error: e?.message ?? String(e) });
   }
 });
 
-app.get("/api/health", (_, res) => res.json({ ok: true }));
-
-app.listen(8787, async () => {
+app.get("/api/search", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const q = String(req.query.q ?? "").trim();
+    if (!q) return res.status(400).json({ error: "missing q" });
+    await backfillBookText(db);
+    res.json(db.searchText(q));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/api/books/:id/manifest", async (req, res) => {
+  try {
+    const bookRoot = path.join(BOOKS_DIR, req.params.id);
+    const manifest = await readManifest(req.params.id);
+    // 旧书导入时还没有识别注释页、固定版式、有声朗读，第一次打开时补上（漫画没有 OPF，不用补朗读）
+    const reparse =
+      manifest.fixedLayout === undefined || (manifest.mediaOverlay === undefined && manifest.format !== "comic");
+    if (!manifest.noteDocs || reparse) {
+      manifest.noteDocs ??= await findNoteDocs(bookRoot, manifest.spine);
+      if (reparse) {
+        const { fixedLayout, pageDirection, spreadMode, spineLayout, mediaOverlay } = await parseOpf(bookRoot, manifest.opfPath);
+        Object.assign(manifest, { fixedLayout, pageDirection, spreadMode, spineLayout, mediaOverlay });
+      }
+      await fs.writeFile(path.join(bookRoot, "manifest.json"), JSON.stringify(manifest, null, 2), "utf8");
+    }
+    res.json(manifest);
+  } catch {
+    res.status(404).json({ error: "not found" });
+  }
+});
+
+app.delete("/api/books/:id", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const id = req.params.id;
+    const bookRoot = path.join(BOOKS_DIR, id);
+    db.deleteBook(id);
+    await fs.rm(bookRoot, { recursive: true, force: true });
+    await fs.rm(originalPath(id), { force: true });
+    res.json({ ok: true });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 词典（Yomitan 格式）：导入、排序、查词
+app.get("/api/dict", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    res.json(db.listDictionaries());
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.post("/api/dict/import", upload.single("file"), async (req, res) => {
+  if (!req.file) return res.status(400).json({ error: "missing file" });
+  const workDir = path.join(TMP_DIR, `dict-${nanoid()}`);
+  let dictId: number | null = null;
+  try {
+    const db = await ensureDb();
+    let index;
+    try {
+      await extract(req.file.path, { dir: workDir });
+      index = await readDictIndex(workDir);
+    } catch (e: any) {
+      return res.status(400).json({ error: e?.message ?? String(e) });
+    }
+    if (db.findDictionary(index.title, index.revision)) {
+      return res.status(409).json({ error: "dictionary already imported" });
+    }
+    dictId = db.createDictionary(index, Date.now());
+    let termCount = 0;
+    for await (const rows of readTermBanks(workDir)) {
+      db.insertDictTerms(dictId, rows);
+      termCount += rows.length;
+    }
+    if (!termCount) throw new Error("no terms found in dictionary");
+    res.json({ ok: true, id: dictId, title: index.title, termCount });
+  } catch (e: any) {
+    // 导入一半失败时不留下残缺的词典
+    if (dictId !== null) (await ensureDb()).deleteDictionary(dictId);
+    res.status(500).json({ error: e?.message ?? String(e) });
+  } finally {
+    await fs.unlink(req.file.path).catch(() => {});
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+app.put("/api/dict/order", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const ids = req.body?.ids;
+    if (!Array.isArray(ids) || !ids.every((x) => Number.isInteger(x))) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    db.reorderDictionaries(ids);
+    res.json({ ok: true });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/dict/:dictId", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const { enabled } = req.body ?? {};
+    if (typeof enabled !== "boolean") return res.status(400).json({ error: "invalid payload" });
+    const changes = db.updateDictionary(Number(req.params.dictId), { enabled });
+    if (!changes) return res.status(404).json({ error: "not found" });
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.delete("/api/dict/:dictId", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const changes = db.deleteDictionary(Number(req.params.dictId));
+    if (!changes) return res.status(404).json({ error: "not found" });
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/api/dict/lookup", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const text = String(req.query.text ?? "");
+    if (!text.trim()) return res.status(400).json({ error: "invalid payload" });
+    res.json(lookupText(text, db.findTerms));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 阅读设置：全局默认 + 每本书的覆盖项
+app.get("/api/settings", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    res.json({ ...DEFAULT_READER_SETTINGS, ...db.getGlobalSettings() });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/settings", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const patch = parseSettingsPatch(req.body);
+    if (!patch) return res.status(400).json({ error: "invalid payload" });
+    const settings = { ...db.getGlobalSettings(), ...patch };
+    db.setGlobalSettings(settings);
+    res.json({ ...DEFAULT_READER_SETTINGS, ...settings });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 自定义配色（整体替换）；内置方案在前端
+app.get("/api/themes", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    res.json(db.getCustomThemes());
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/themes", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const themes = parseCustomThemes(req.body);
+    if (!themes) return res.status(400).json({ error: "invalid payload" });
+    db.setCustomThemes(themes);
+    res.json(themes);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/api/books/:id/settings", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    if (!db.getBook(req.params.id)) return res.status(404).json({ error: "not found" });
+    res.json(db.getBookSettings(req.params.id));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 整体替换本书的覆盖项；{} 等同于重置
+app.put("/api/books/:id/settings", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const patch = parseSettingsPatch(req.body);
+    if (!patch) return res.status(400).json({ error: "invalid payload" });
+    if (!db.getBook(req.params.id)) return res.status(404).json({ error: "not found" });
+    db.setBookSettings(req.params.id, patch, Date.now());
+    res.json({ ok: true });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.delete("/api/books/:id/settings", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const changes = db.deleteBookSettings(req.params.id);
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 自动注音（阅读器按章请求）：texts 是 ruby 之外的文本节点，返回每段文本里的注音位置
+app.post("/api/furigana", async (req, res) => {
+  try {
+    const texts = req.body?.texts;
+    if (!Array.isArray(texts) || !texts.every((t) => typeof t === "string")) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    const spans = [];
+    for (const t of texts) spans.push(await furiganaFor(t));
+    res.json({ spans });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/api/furigana/kanji-levels", (_, res) => {
+  try {
+    res.json(kanjiLevels());
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 生词本：从阅读器保存的词 + 例句，可导出到 Anki
+app.get("/api/vocab", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const bookId = typeof req.query.bookId === "string" ? req.query.bookId : undefined;
+    const q = String(req.query.q ?? "").trim() || undefined;
+    res.json(db.listVocab({ bookId, q }));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+function optionalOffset(v: unknown) {
+  return Number.isInteger(v) && (v as number) >= 0 ? (v as number) : null;
+}
+
+app.post("/api/vocab", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const { bookId, href, chapterTitle, startOffset, endOffset } = req.body ?? {};
+    const expression = typeof req.body?.expression === "string" ? req.body.expression.trim() : "";
+    if (typeof bookId !== "string" || !bookId || typeof href !== "string" || !href || !expression) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    if (VOCAB_TEXT_FIELDS.some((f) => req.body[f] !== undefined && typeof req.body[f] !== "string")) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    const book = db.getBook(bookId);
+    if (!book) return res.status(404).json({ error: "not found" });
+    const now = Date.now();
+    const id = db.addVocab({
+      bookId,
+      bookTitle: book.title,
+      href,
+      chapterTitle: typeof chapterTitle === "string" && chapterTitle ? chapterTitle : null,
+      startOffset: optionalOffset(startOffset),
+      endOffset: optionalOffset(endOffset),
+      expression,
+      reading: req.body.reading ?? "",
+      glossary: req.body.glossary ?? "",
+      sentence: req.body.sentence ?? "",
+      note: req.body.note ?? "",
+      tags: req.body.tags ?? "",
+      createdAt: now,
+      updatedAt: now,
+    });
+    res.json({ ok: true, id });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 导出：format=tsv|apkg，fields 是 JSON 字段映射 [{ name, template }]，ids 可选（逗号分隔）
+app.get("/api/vocab/export", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const format = req.query.format ?? "tsv";
+    if (format !== "tsv" && format !== "apkg") return res.status(400).json({ error: "invalid format" });
+    let fields = DEFAULT_ANKI_FIELDS;
+    if (typeof req.query.fields === "string") {
+      let parsed = null;
+      try {
+        parsed = parseFieldMapping(JSON.parse(req.query.fields));
+      } catch {
+        // fallthrough
+      }
+      if (!parsed) return res.status(400).json({ error: "invalid fields" });
+      fields = parsed;
+    }
+    const deck = String(req.query.deck ?? "").trim() || DEFAULT_ANKI_DECK;
+    const origin = typeof req.query.origin === "string" && /^https?:\/\//.test(req.query.origin) ? req.query.origin : "";
+    const ids =
+      typeof req.query.ids === "string" && req.query.ids
+        ? req.query.ids.split(",").map(Number).filter(Number.isInteger)
+        : undefined;
+    const bookId = typeof req.query.bookId === "string" ? req.query.bookId : undefined;
+    // 导出按保存顺序，Anki 里新卡片的顺序和保存顺序一致
+    const cards = db.listVocab({ bookId, ids }).reverse();
+    const opts = { deck, fields, origin };
+    const day = new Date().toISOString().slice(0, 10);
+
+    if (format === "tsv") {
+      res.setHeader("Content-Type", "text/tab-separated-values; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="vocab-${day}.txt"`);
+      return res.send(toAnkiTsv(cards, opts));
+    }
+
+    const colPath = path.join(TMP_DIR, `anki-${nanoid()}.anki2`);
+    let col: Buffer;
+    try {
+      writeAnkiCollection(colPath, cards, opts);
+      col = await fs.readFile(colPath);
+    } finally {
+      await fs.rm(colPath, { force: true });
+    }
+    const zip = new ZipFile();
+    zip.addBuffer(col, "collection.anki2");
+    zip.addBuffer(Buffer.from("{}", "utf8"), "media");
+    zip.end();
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader("Content-Disposition", `attachment; filename="vocab-${day}.apkg"`);
+    zip.outputStream.pipe(res);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.put("/api/vocab/:vocabId", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const patch: VocabPatch = {};
+    for (const f of VOCAB_TEXT_FIELDS) {
+      const v = req.body?.[f];
+      if (v === undefined) continue;
+      if (typeof v !== "string") return res.status(400).json({ error: "invalid payload" });
+      patch[f] = v;
+    }
+    if (patch.expression !== undefined && !patch.expression.trim()) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+    const changes = db.updateVocab(Number(req.params.vocabId), patch, Date.now());
+    if (!changes) return res.status(404).json({ error: "not found" });
+    res.json({ ok: true });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.delete("/api/vocab/:vocabId", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const changes = db.deleteVocab(Number(req.params.vocabId));
+    if (!changes) return res.status(404).json({ error: "not found" });
+    res.json({ ok: true, changes });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+/** 把目录里的所有文件按 zip 打包，mimetype 放在最前且不压缩（EPUB 规范要求） */
+async function packEpubDir(dirAbs: string, outPath: string) {
+  const zip = new ZipFile();
+  const done = new Promise<void>((resolve, reject) => {
+    const out = fssync.createWriteStream(outPath);
+    out.on("close", resolve).on("error", reject);
+    zip.outputStream.pipe(out);
+  });
+  const mimetype = path.join(dirAbs, "mimetype");
+  if (fssync.existsSync(mimetype)) zip.addFile(mimetype, "mimetype", { compress: false });
+  const walk = async (rel: string): Promise<void> => {
+    for (const d of await fs.readdir(path.join(dirAbs, rel), { withFileTypes: true })) {
+      const r = rel ? `${rel}/${d.name}` : d.name;
+      if (d.isDirectory()) await walk(r);
+      else if (r !== "mimetype" && r !== "manifest.json") zip.addFile(path.join(dirAbs, r), r);
+    }
+  };
+  await walk("");
+  zip.end();
+  await done;
+}
+
+/** 旧版本导入的书没有保留原始文件：从解包目录重新打包一份 */
+async function ensureOriginal(bookId: string) {
+  const p = originalPath(bookId);
+  if (!fssync.existsSync(p)) await packEpubDir(path.join(BOOKS_DIR, bookId), p);
+  return p;
+}
+
+// 整库备份：zip 里是 backup.json（版本化的数据库内容）+ epubs/<bookId>.epub
+app.get("/api/backup", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    const data = db.exportLibrary();
+    const zip = new ZipFile();
+    zip.addBuffer(Buffer.from(JSON.stringify(data, null, 2), "utf8"), "backup.json");
+    for (const b of data.books) {
+      zip.addFile(await ensureOriginal(b.book.id), `epubs/${b.book.id}.epub`, { compress: false });
+    }
+    zip.end();
+
+    const day = new Date(data.exportedAt).toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="library-backup-${day}.zip"`);
+    zip.outputStream.pipe(res);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+const RESTORE_MODES = ["merge", "replace"] as const;
+// merge 模式下 id 已存在时：跳过、覆盖，或作为新书导入一份
+const RESTORE_CONFLICTS = ["skip", "overwrite", "copy"] as const;
+
+type RestoreReport = {
+  restored: { id: string; title: string; from: string }[];
+  skipped: { id: string; title: string; reason: string }[];
+  failed: { id: string; title: string; error: string }[];
+};
+
+/** nanoid 的字符集；备份里的书 id 会拿来拼目录和文件名 */
+const BOOK_ID_RE = /^[A-Za-z0-9_-]+$/;
+
+app.post("/api/restore", upload.single("file"), async (req, res) => {
+  if (!req.file) return res.status(400).json({ error: "missing file" });
+  const workDir = path.join(TMP_DIR, `restore-${nanoid()}`);
+  try {
+    const db = await ensureDb();
+    const mode = req.body?.mode ?? req.query.mode ?? "merge";
+    const onConflict = req.body?.onConflict ?? req.query.onConflict ?? "skip";
+    if (!RESTORE_MODES.includes(mode) || !RESTORE_CONFLICTS.includes(onConflict)) {
+      return res.status(400).json({ error: "invalid payload" });
+    }
+
+    await extract(req.file.path, { dir: workDir });
+    let data: LibraryBackup;
+    try {
+      data = JSON.parse(await fs.readFile(path.join(workDir, "backup.json"), "utf8"));
+    } catch {
+      return res.status(400).json({ error: "not a library backup" });
+    }
+    if (typeof data?.version !== "number" || !Array.isArray(data.books)) {
+      return res.status(400).json({ error: "not a library backup" });
+    }
+    if (data.version > BACKUP_VERSION) {
+      return res.status(400).json({ error: `unsupported backup version ${data.version}` });
+    }
+
+    // 先检查每本书（id 合法、EPUB 在）；替换模式下全部通过才清空书库
+    const report: RestoreReport = { restored: [], skipped: [], failed: [] };
+    const books: LibraryBackup["books"] = [];
+    for (const b of data.books) {
+      const id = b?.book?.id;
+      const title = typeof b?.book?.title === "string" ? b.book.title : "";
+      if (typeof id !== "string" || !BOOK_ID_RE.test(id)) {
+        report.failed.push({ id: String(id), title, error: "invalid book id" });
+        continue;
+      }
+      try {
+        await fs.access(safeJoin(workDir, path.join("epubs", `${id}.epub`)), fssync.constants.R_OK);
+      } catch {
+        report.failed.push({ id, title, error: "EPUB missing from backup" });
+        continue;
+      }
+      books.push(b);
+    }
+    if (mode === "replace" && report.failed.length) {
+      return res.status(400).json({ error: "backup is incomplete; the library was left unchanged", failed: report.failed });
+    }
+
+    if (mode === "replace") {
+      for (const id of db.clearLibrary()) {
+        await fs.rm(path.join(BOOKS_DIR, id), { recursive: true, force: true });
+        await fs.rm(originalPath(id), { force: true });
+      }
+      const settings = parseSettingsPatch(data.settings);
+      if (settings) db.setGlobalSettings(settings);
+      const themes = parseCustomThemes(data.themes);
+      if (themes) db.setCustomThemes(themes);
+    } else {
+      // 合并模式：只补上本地没有的自定义配色
+      const themes = parseCustomThemes(data.themes);
+      const local = db.getCustomThemes();
+      const added = (themes ?? []).filter((t) => !local.some((x) => x.id === t.id));
+      if (added.length) db.setCustomThemes([...local, ...added]);
+    }
+
+    const collectionDates = new Map((data.collections ?? []).map((c) => [c.name, c.createdAt]));
+    for (const b of books) {
+      const { id, title } = b.book;
+      let targetId = id;
+      if (db.getBook(id)) {
+        if (onConflict === "skip") {
+          report.skipped.push({ id, title, reason: "id already exists" });
+          continue;
+        }
+        if (onConflict === "copy") targetId = nanoid();
+      }
+      try {
+        const epub = safeJoin(workDir, path.join("epubs", `${id}.epub`));
+        const contentHash = await hashFile(epub);
+        await installBook(db, targetId, await unpackEpub(epub, title), contentHash);
+        await keepOriginal(epub, targetId);
+        db.restoreBookData(targetId, { ...b, settings: parseSettingsPatch(b.settings) ?? undefined }, collectionDates);
+        report.restored.push({ id: targetId, title, from: id });
+      } catch (e: any) {
+        report.failed.push({ id, title, error: e?.message ?? String(e) });
+      }
+    }
+    res.json({ ok: true, mode, total: data.books.length, restoredCount: report.restored.length, ...report });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  } finally {
+    await fs.unlink(req.file.path).catch(() => {});
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+// 下载原始 EPUB（图片压缩包导入的下载原来的 .cbz）
+app.get("/api/books/:id/file", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const book = db.getBook(req.params.id);
+    if (!book) return res.status(404).json({ error: "not found" });
+    const file = await ensureOriginal(book.id);
+    const comic = (await readManifest(book.id)).format === "comic";
+    res.setHeader("Content-Type", comic ? "application/vnd.comicbook+zip" : "application/epub+zip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(book.title)}.${comic ? "cbz" : "epub"}`
+    );
+    fssync.createReadStream(file).pipe(res);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// OPDS 1.2 目录（KOReader 等阅读器可以直接浏览和下载）
+const OPDS_PAGE_SIZE = 50;
+
+function sendOpds(res: express.Response, type: string, xml: string) {
+  res.setHeader("Content-Type", `${type};charset=utf-8`);
+  res.send(xml);
+}
+
+/** 书目 feed：按页切分 listBooks 的结果，每本书用 getBook 补全作者、简介等，manifest 里看是不是漫画 */
+async function sendBookFeed(
+  db: Db,
+  req: express.Request,
+  res: express.Response,
+  head: { id: string; title: string; self: string },
+  items: { id: string }[]
+) {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const books = [];
+  for (const item of items.slice((page - 1) * OPDS_PAGE_SIZE, page * OPDS_PAGE_SIZE)) {
+    const book = db.getBook(item.id);
+    if (!book) continue;
+    const format = await readManifest(book.id).then((m) => m.format, () => undefined);
+    books.push({ ...book, format });
+  }
+  const pageHref = (n: number) => `${head.self}${head.self.includes("?") ? "&" : "?"}page=${n}`;
+  const links = [];
+  if (page > 1) links.push({ rel: "previous", href: pageHref(page - 1), type: OPDS_ACQ_TYPE });
+  if (page * OPDS_PAGE_SIZE < items.length) links.push({ rel: "next", href: pageHref(page + 1), type: OPDS_ACQ_TYPE });
+  const updated = Math.max(0, ...books.map((b) => b.lastOpenedAt ?? b.createdAt)) || Date.now();
+  sendOpds(res, OPDS_ACQ_TYPE, acquisitionFeed({ ...head, updated, links }, books));
+}
+
+app.get("/opds", async (_, res) => {
+  try {
+    await ensureDb();
+    const nav = (id: string, title: string, href: string, kind: "navigation" | "acquisition", content: string) => ({
+      id: `urn:scrollable-epub-reader:${id}`,
+      title,
+      href,
+      kind,
+      content,
+    });
+    sendOpds(
+      res,
+      OPDS_NAV_TYPE,
+      navigationFeed({ id: "urn:scrollable-epub-reader:root", title: "Library", self: "/opds", updated: Date.now() }, [
+        nav("recent", "Recently added", "/opds/recent", "acquisition", "Newest books first"),
+        nav("opened", "Recently opened", "/opds/opened", "acquisition", "Books you have been reading"),
+        nav("all", "All books", "/opds/all", "acquisition", "Every book, by title"),
+        nav("authors", "By author", "/opds/authors", "navigation", "Browse books by author"),
+        nav("collections", "By collection", "/opds/collections", "navigation", "Browse your collections"),
+      ])
+    );
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/opensearch.xml", (_, res) => {
+  sendOpds(res, OPENSEARCH_TYPE, openSearchDescription());
+});
+
+app.get("/opds/recent", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const head = { id: "urn:scrollable-epub-reader:recent", title: "Recently added", self: "/opds/recent" };
+    await sendBookFeed(db, req, res, head, db.listBooks({ sort: "added" }));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/opened", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const head = { id: "urn:scrollable-epub-reader:opened", title: "Recently opened", self: "/opds/opened" };
+    const books = db.listBooks({ sort: "opened" }).filter((b) => b.lastOpenedAt != null);
+    await sendBookFeed(db, req, res, head, books);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/all", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const head = { id: "urn:scrollable-epub-reader:all", title: "All books", self: "/opds/all" };
+    await sendBookFeed(db, req, res, head, db.listBooks({ sort: "title" }));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/search", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const q = String(req.query.q ?? "").trim();
+    const head = {
+      id: `urn:scrollable-epub-reader:search:${q}`,
+      title: `Search: ${q}`,
+      self: `/opds/search?q=${encodeURIComponent(q)}`,
+    };
+    await sendBookFeed(db, req, res, head, q ? db.listBooks({ q, sort: "title" }) : []);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/authors", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    const entries = db.listFacets().authors.map((a) => ({
+      id: `urn:scrollable-epub-reader:author:${a.value}`,
+      title: a.value,
+      href: `/opds/authors/${encodeURIComponent(a.value)}`,
+      kind: "acquisition" as const,
+      content: `${a.count} book${a.count > 1 ? "s" : ""}`,
+    }));
+    const head = { id: "urn:scrollable-epub-reader:authors", title: "By author", self: "/opds/authors", updated: Date.now() };
+    sendOpds(res, OPDS_NAV_TYPE, navigationFeed(head, entries));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/authors/:name", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const name = req.params.name;
+    const head = {
+      id: `urn:scrollable-epub-reader:author:${name}`,
+      title: name,
+      self: `/opds/authors/${encodeURIComponent(name)}`,
+    };
+    await sendBookFeed(db, req, res, head, db.listBooks({ author: name, sort: "series" }));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/collections", async (_, res) => {
+  try {
+    const db = await ensureDb();
+    const entries = db.listCollections().map((c) => ({
+      id: `urn:scrollable-epub-reader:collection:${c.id}`,
+      title: c.name,
+      href: `/opds/collections/${c.id}`,
+      kind: "acquisition" as const,
+      content: `${c.bookCount} book${c.bookCount === 1 ? "" : "s"}`,
+      updated: c.createdAt,
+    }));
+    const head = {
+      id: "urn:scrollable-epub-reader:collections",
+      title: "By collection",
+      self: "/opds/collections",
+      updated: Date.now(),
+    };
+    sendOpds(res, OPDS_NAV_TYPE, navigationFeed(head, entries));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+app.get("/opds/collections/:cid", async (req, res) => {
+  try {
+    const db = await ensureDb();
+    const cid = Number(req.params.cid);
+    const collection = db.listCollections().find((c) => c.id === cid);
+    if (!collection) return res.status(404).json({ error: "not found" });
+    const head = {
+      id: `urn:scrollable-epub-reader:collection:${cid}`,
+      title: collection.name,
+      self: `/opds/collections/${cid}`,
+    };
+    await sendBookFeed(db, req, res, head, db.listBooks({ collection: cid, sort: "title" }));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message ?? String(e) });
+  }
+});
+
+// 资源访问：/api/books/:id/resource/<relPath>
+// Use a RegExp route to capture the rest of the path in Express 5
+app.get(/^\/api\/books\/([^/]+)\/resource\/(.*)$/, async (req, res) => {
+  try {
+    const bookRoot = path.join(BOOKS_DIR, req.params[0]);
+    const rel = req.params[1];
+    const abs = safeJoin(bookRoot, rel);
+
+    if (!fssync.existsSync(abs)) return res.status(404).send("not found");
+
+    const ct = mime.getType(abs) || "application/octet-stream";
+    res.setHeader("Content-Type", ct);
+
+    // sendFile 处理 Range（朗读音频要能拖动进度）
+    res.sendFile(abs, { dotfiles: "allow" }, (err) => {
+      if (err && !res.headersSent) res.status(404).send("not found");
+    });
+  } catch (e: any) {
+    res.status(404).json({ error: e?.message ?? "not found" });
+  }
+});
+
+app.get("/api/health", (_, res) => res.json({ ok: true }));
+
+app.listen(8787, async () => {
   await ensureDirs();
+  if (WATCH_DIR) {
+    await fs.mkdir(WATCH_DIR, { recursive: true });
+    watchImportDir(WATCH_DIR, importQueue, (filePath, file) => importQueued(filePath, file));
+    console.log(`watching ${WATCH_DIR} for .epub / .cbz / .txt / .md files`);
+  }
   console.log("server: http://127.0.0.1:8787");
 });
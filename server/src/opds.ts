@@ -0,0 +1,141 @@
+import mime from "mime";
+import { BookRow, CreatorRow } from "./db";
+
+/** OPDS 1.2 (Atom) 目录：只负责拼 XML，查询和路由在 index.ts */
+
+export const OPDS_NAV_TYPE = "application/atom+xml;profile=opds-catalog;kind=navigation";
+export const OPDS_ACQ_TYPE = "application/atom+xml;profile=opds-catalog;kind=acquisition";
+export const OPENSEARCH_TYPE = "application/opensearchdescription+xml";
+const EPUB_TYPE = "application/epub+zip";
+const CBZ_TYPE = "application/vnd.comicbook+zip";
+
+export type OpdsLink = { rel: string; href: string; type: string; title?: string };
+export type OpdsNavEntry = {
+  id: string;
+  title: string;
+  href: string;
+  /** 链接目标是导航 feed 还是书目 feed */
+  kind: "navigation" | "acquisition";
+  content?: string;
+  updated?: number;
+};
+export type OpdsBook = BookRow & {
+  creators: CreatorRow[];
+  subjects: string[];
+  /** manifest 的 format：comic 时下载的是 .cbz */
+  format?: "comic";
+};
+
+type FeedHead = {
+  id: string;
+  title: string;
+  /** 本 feed 的路径（self 链接） */
+  self: string;
+  updated: number;
+  links?: OpdsLink[];
+};
+
+export function escapeXml(s: string) {
+  return s.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function iso(ts: number) {
+  return new Date(ts).toISOString();
+}
+
+function link(l: OpdsLink) {
+  const title = l.title ? ` title="${escapeXml(l.title)}"` : "";
+  return `<link rel="${escapeXml(l.rel)}" href="${escapeXml(l.href)}" type="${escapeXml(l.type)}"${title}/>`;
+}
+
+function feed(head: FeedHead, kind: string, entries: string[]) {
+  const links: OpdsLink[] = [
+    { rel: "self", href: head.self, type: kind },
+    { rel: "start", href: "/opds", type: OPDS_NAV_TYPE, title: "Library" },
+    { rel: "search", href: "/opds/opensearch.xml", type: OPENSEARCH_TYPE, title: "Search by title" },
+    ...(head.links ?? []),
+  ];
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/terms/" xmlns:opds="http://opds-spec.org/2010/catalog">`,
+    `<id>${escapeXml(head.id)}</id>`,
+    `<title>${escapeXml(head.title)}</title>`,
+    `<updated>${iso(head.updated)}</updated>`,
+    `<author><name>scrollable-epub-reader</name></author>`,
+    ...links.map(link),
+    ...entries,
+    `</feed>`,
+  ].join("\n");
+}
+
+export function navigationFeed(head: FeedHead, entries: OpdsNavEntry[]) {
+  return feed(
+    head,
+    OPDS_NAV_TYPE,
+    entries.map((e) =>
+      [
+        `<entry>`,
+        `<title>${escapeXml(e.title)}</title>`,
+        `<id>${escapeXml(e.id)}</id>`,
+        `<updated>${iso(e.updated ?? head.updated)}</updated>`,
+        e.content ? `<content type="text">${escapeXml(e.content)}</content>` : "",
+        link({ rel: "subsection", href: e.href, type: e.kind === "navigation" ? OPDS_NAV_TYPE : OPDS_ACQ_TYPE }),
+        `</entry>`,
+      ]
+        .filter(Boolean)
+        .join("\n")
+    )
+  );
+}
+
+function bookEntry(b: OpdsBook) {
+  const authors = b.creators.filter((c) => !c.role || c.role === "aut");
+  const resource = (href: string) =>
+    `/api/books/${encodeURIComponent(b.id)}/resource/${href.split("/").map(encodeURIComponent).join("/")}`;
+  const lines = [
+    `<entry>`,
+    `<title>${escapeXml(b.title)}</title>`,
+    // 同一 identifier 可能有多份（“另存一份”导入），条目 id 用书库内的 id
+    `<id>urn:scrollable-epub-reader:book:${escapeXml(b.id)}</id>`,
+    b.identifier ? `<dc:identifier>${escapeXml(b.identifier)}</dc:identifier>` : "",
+    `<updated>${iso(b.lastOpenedAt ?? b.createdAt)}</updated>`,
+    ...authors.map((a) => `<author><name>${escapeXml(a.name)}</name></author>`),
+    b.language ? `<dc:language>${escapeXml(b.language)}</dc:language>` : "",
+    b.publisher ? `<dc:publisher>${escapeXml(b.publisher)}</dc:publisher>` : "",
+    b.pubDate ? `<dc:issued>${escapeXml(b.pubDate)}</dc:issued>` : "",
+    ...b.subjects.map((s) => `<category term="${escapeXml(s)}" label="${escapeXml(s)}"/>`),
+    b.description ? `<summary type="text">${escapeXml(b.description)}</summary>` : "",
+    b.series
+      ? `<content type="text">${escapeXml(b.series)}${b.seriesIndex != null ? ` #${b.seriesIndex}` : ""}</content>`
+      : "",
+    link({
+      rel: "http://opds-spec.org/acquisition/open-access",
+      href: `/api/books/${encodeURIComponent(b.id)}/file`,
+      type: b.format === "comic" ? CBZ_TYPE : EPUB_TYPE,
+    }),
+  ];
+  if (b.coverHref) {
+    const type = mime.getType(b.coverHref) ?? "image/jpeg";
+    lines.push(link({ rel: "http://opds-spec.org/image", href: resource(b.coverHref), type }));
+    lines.push(link({ rel: "http://opds-spec.org/image/thumbnail", href: resource(b.coverHref), type }));
+  }
+  lines.push(`</entry>`);
+  return lines.filter(Boolean).join("\n");
+}
+
+export function acquisitionFeed(head: FeedHead, books: OpdsBook[]) {
+  return feed(head, OPDS_ACQ_TYPE, books.map(bookEntry));
+}
+
+export function openSearchDescription() {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">`,
+    `<ShortName>Library</ShortName>`,
+    `<Description>Search books by title, author or series</Description>`,
+    `<InputEncoding>UTF-8</InputEncoding>`,
+    `<OutputEncoding>UTF-8</OutputEncoding>`,
+    `<Url type="${escapeXml(OPDS_ACQ_TYPE)}" template="/opds/search?q={searchTerms}"/>`,
+    `</OpenSearchDescription>`,
+  ].join("\n");
+}
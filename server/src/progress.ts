@@ -0,0 +1,71 @@
+/**
+ * 全书进度和剩余时间。章内位置用阅读器上报的 progression（0..1），按各 spine 文档的字数折算成全书的字数位置；
+ * 阅读速度由相邻两次进度保存之间前进的字数 / 间隔时间累计得出。
+ */
+
+export type ReadingPosition = {
+  /** 全书进度 0..1 */
+  bookProgression: number;
+  /** 当前 spine 文档内的进度 0..1 */
+  chapterProgression: number;
+  totalChars: number;
+  readChars: number;
+  /** 实测阅读速度（字/分）；数据太少时为 null，剩余时间也为 null */
+  charsPerMinute: number | null;
+  minutesLeft: number | null;
+  chapterMinutesLeft: number | null;
+};
+
+export type ReadingSpeed = { chars: number; ms: number };
+
+/** 两次保存间隔超过这个时间，视为中途离开，不计入速度 */
+const MAX_GAP_MS = 5 * 60_000;
+/** 一次前进超过这么多字，视为目录 / 书签跳转，不计入速度 */
+const MAX_STEP_CHARS = 3000;
+/** 累计读够这么久才给出估算 */
+const MIN_SAMPLE_MS = 3 * 60_000;
+
+/** href 不在 spine 里（或字数为 0 的书）返回 null */
+export function bookCharPosition(spine: string[], spineChars: number[], href: string, progression: number | null) {
+  const idx = spine.indexOf(href.split("#")[0]);
+  if (idx < 0) return null;
+  const totalChars = spineChars.reduce((a, b) => a + b, 0);
+  if (!totalChars) return null;
+  const before = spineChars.slice(0, idx).reduce((a, b) => a + b, 0);
+  const chapterChars = spineChars[idx] ?? 0;
+  const chapterProgression = Math.min(1, Math.max(0, progression ?? 0));
+  return { idx, totalChars, chapterChars, chapterProgression, readChars: before + chapterChars * chapterProgression };
+}
+
+/** 本次保存计入速度的样本；往回翻、跳转、间隔太久都不算 */
+export function speedSample(prevChars: number | null, prevAt: number | null, chars: number, now: number): ReadingSpeed {
+  if (prevChars == null || prevAt == null) return { chars: 0, ms: 0 };
+  const step = chars - prevChars;
+  const ms = now - prevAt;
+  if (step <= 0 || step > MAX_STEP_CHARS || ms <= 0 || ms > MAX_GAP_MS) return { chars: 0, ms: 0 };
+  return { chars: Math.round(step), ms };
+}
+
+/** 优先用这本书的速度，不够时用全书库的 */
+export function pickSpeed(...speeds: ReadingSpeed[]) {
+  const s = speeds.find((x) => x.ms >= MIN_SAMPLE_MS && x.chars > 0);
+  return s ? (s.chars / s.ms) * 60_000 : null;
+}
+
+export function readingPosition(
+  pos: NonNullable<ReturnType<typeof bookCharPosition>>,
+  charsPerMinute: number | null
+): ReadingPosition {
+  const left = pos.totalChars - pos.readChars;
+  const chapterLeft = pos.chapterChars * (1 - pos.chapterProgression);
+  const minutes = (chars: number) => (charsPerMinute ? Math.round(chars / charsPerMinute) : null);
+  return {
+    bookProgression: pos.readChars / pos.totalChars,
+    chapterProgression: pos.chapterProgression,
+    totalChars: pos.totalChars,
+    readChars: Math.round(pos.readChars),
+    charsPerMinute: charsPerMinute ? Math.round(charsPerMinute) : null,
+    minutesLeft: minutes(left),
+    chapterMinutesLeft: minutes(chapterLeft),
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * 阅读器设置。全局默认值和每本书的覆盖项都只存“和内置默认不同的键”，
+ * 读取时按 内置默认 < 全局 < 书的覆盖 依次合并（书的竖排猜测由前端插在全局和覆盖之间）。
+ */
+
+export type ReaderSettings = {
+  vertical: boolean;
+  layoutMode: "scroll" | "paged";
+  fixedPage: boolean;
+  /** 页面宽高比 */
+  pageAspect: number;
+  /** 百分比 */
+  fontSize: number;
+  /** CSS font-family；空字符串表示用书自带的字体 */
+  fontFamily: string;
+  /** null 表示用书自带的行高 */
+  lineHeight: number | null;
+  /** 行长（px，滚动模式） */
+  lineLength: number;
+  /** 正文四周留白（px） */
+  margin: number;
+  /** book 表示不改书里的对齐方式 */
+  textAlign: "book" | "start" | "justify";
+  /** 段间距（em）；null 表示用书自带的 */
+  paragraphSpacing: number | null;
+  rubyMode: "show" | "hide" | "hover" | "level";
+  rubyLevel: "n5" | "n4" | "n3" | "n2" | "n1";
+  autoFurigana: boolean;
+  /** 配色方案：内置的 light / sepia / dark / black，或自定义方案的 id */
+  theme: string;
+  /** 深色方案下反色显示图片（白底插图） */
+  invertImages: boolean;
+  /** 章节列表和上下章翻页跳过只放注释的文档 */
+  hideNoteDocs: boolean;
+  /** 滚动模式下前后章连成一条连续滚动 */
+  continuous: boolean;
+  /** 固定版式（漫画等）：auto 横屏时两页并排，single 单页，double 总是两页 */
+  fixedSpread: "auto" | "single" | "double";
+};
+export type ReaderSettingsPatch = Partial<ReaderSettings>;
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  vertical: true,
+  layoutMode: "scroll",
+  fixedPage: true,
+  pageAspect: 0.75,
+  fontSize: 110,
+  fontFamily: "",
+  lineHeight: null,
+  lineLength: 663,
+  margin: 16,
+  textAlign: "book",
+  paragraphSpacing: null,
+  rubyMode: "show",
+  rubyLevel: "n3",
+  autoFurigana: false,
+  theme: "light",
+  invertImages: false,
+  hideNoteDocs: false,
+  continuous: false,
+  fixedSpread: "auto",
+};
+
+/** 自定义配色；界面上其余的颜色（边框、按钮等）由前端从背景色和文字色推算 */
+export type CustomTheme = {
+  id: string;
+  name: string;
+  background: string;
+  text: string;
+  link: string;
+  selection: string;
+};
+
+type Rule = (v: unknown) => boolean;
+
+const bool: Rule = (v) => typeof v === "boolean";
+const num =
+  (min: number, max: number): Rule =>
+  (v) =>
+    typeof v === "number" && Number.isFinite(v) && v >= min && v <= max;
+const oneOf =
+  (...values: string[]): Rule =>
+  (v) =>
+    typeof v === "string" && values.includes(v);
+const nullable =
+  (rule: Rule): Rule =>
+  (v) =>
+    v === null || rule(v);
+
+const THEME_ID_RE = /^[a-z0-9-]{1,40}$/;
+const COLOR_RE = /^#[0-9a-f]{6}$/i;
+const BUILTIN_THEMES = ["light", "sepia", "dark", "black"];
+
+const RULES: Record<keyof ReaderSettings, Rule> = {
+  vertical: bool,
+  layoutMode: oneOf("scroll", "paged"),
+  fixedPage: bool,
+  pageAspect: num(0.4, 1.2),
+  fontSize: num(50, 250),
+  // 会拼进 iframe 的 <style>，不允许能跳出声明的字符
+  fontFamily: (v) => typeof v === "string" && v.length <= 200 && !/[;{}<>\\]/.test(v),
+  lineHeight: nullable(num(1, 3)),
+  lineLength: num(200, 2000),
+  margin: num(0, 120),
+  textAlign: oneOf("book", "start", "justify"),
+  paragraphSpacing: nullable(num(0, 3)),
+  rubyMode: oneOf("show", "hide", "hover", "level"),
+  rubyLevel: oneOf("n5", "n4", "n3", "n2", "n1"),
+  autoFurigana: bool,
+  theme: (v) => typeof v === "string" && THEME_ID_RE.test(v),
+  invertImages: bool,
+  hideNoteDocs: bool,
+  continuous: bool,
+  fixedSpread: oneOf("auto", "single", "double"),
+};
+
+/** 校验设置片段：值不合法返回 null；不认识的键直接丢掉（兼容新旧版本的前端） */
+export function parseSettingsPatch(raw: unknown): ReaderSettingsPatch | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    // 只认 RULES 自己的键：constructor、__proto__ 之类会从原型链上取到
+    if (!Object.prototype.hasOwnProperty.call(RULES, k)) continue;
+    const rule = RULES[k as keyof ReaderSettings];
+    if (!rule(v)) return null;
+    out[k] = v;
+  }
+  return out as ReaderSettingsPatch;
+}
+
+/** 校验自定义配色列表（整体替换）：id 不能和内置方案或彼此重复，颜色只接受 #rrggbb（会拼进 CSS） */
+export function parseCustomThemes(raw: unknown): CustomTheme[] | null {
+  if (!Array.isArray(raw) || raw.length > 50) return null;
+  const themes: CustomTheme[] = [];
+  for (const t of raw) {
+    const id = typeof t?.id === "string" ? t.id : "";
+    const name = typeof t?.name === "string" ? t.name.trim() : "";
+    if (!THEME_ID_RE.test(id) || BUILTIN_THEMES.includes(id) || themes.some((x) => x.id === id)) return null;
+    if (!name || name.length > 80) return null;
+    const colors = [t.background, t.text, t.link, t.selection];
+    if (!colors.every((c) => typeof c === "string" && COLOR_RE.test(c))) return null;
+    themes.push({ id, name, background: t.background, text: t.text, link: t.link, selection: t.selection });
+  }
+  return themes;
+}
@@ -0,0 +1,388 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { Worker } from "worker_threads";
+
+// 纯文本 / Markdown 导入（网络小说常见的 GBK、Big5、Shift_JIS 的 .txt）：
+// 猜编码转成 UTF-8，按章节标题的正则分章，生成一本普通的 EPUB 目录（OPF + nav + 每章一个 XHTML），
+// 之后的解析、阅读、进度都和导入的 EPUB 一样。
+
+export const TEXT_ENCODINGS = ["auto", "utf-8", "gb18030", "big5", "shift_jis", "euc-jp", "utf-16le", "utf-16be"];
+
+/** 默认的章节标题（整行匹配，去掉首尾空白后）：第N章 / 序章、后记之类 / Chapter N / Markdown 一二级标题 */
+export const DEFAULT_CHAPTER_PATTERNS = [
+  "第[0-9０-９零〇一二三四五六七八九十百千万两]+[章回节節话話卷部篇集](?:[\\s:：、.．]+.*)?",
+  "(?:序章|序言|楔子|引子|尾声|尾聲|后记|後記|番外.*|プロローグ|エピローグ|あとがき)",
+  "(?:Chapter|CHAPTER|Part|PART)\\s+(?:\\d+|[IVXLCDM]+)\\b.*",
+  "#{1,2}\\s+.+",
+];
+
+/** 比这长的行不当标题（正文里的句子也可能以“第一章”开头） */
+const MAX_HEADING_LENGTH = 60;
+const MAX_PATTERNS = 20;
+/** 标题匹配最多跑这么久，超时算分章失败 */
+const MATCH_TIMEOUT_MS = 5000;
+
+export type TextImportOptions = {
+  /** auto：按内容猜 */
+  encoding: string;
+  /** 章节标题的正则，匹配整行 */
+  patterns: string[];
+  title?: string;
+};
+
+export function isTextFile(name?: string) {
+  return !!name && /\.(txt|md|markdown)$/i.test(name);
+}
+
+function isMarkdown(name?: string) {
+  return !!name && /\.(md|markdown)$/i.test(name);
+}
+
+function compilePattern(p: string) {
+  return new RegExp(`^(?:${p})$`, "u");
+}
+
+/**
+ * 用户写的正则要挡掉会回溯爆炸的写法（(a+)+b、(a|a)*）：重复的组里不能再有重复或分支，也不能用反向引用。
+ * 标题行虽然限制了长度，指数级的回溯 60 个字符也够卡死服务端了。
+ */
+function isSafePattern(p: string) {
+  const groups: { repeat: boolean; alt: boolean }[] = [{ repeat: false, alt: false }];
+  for (let i = 0; i < p.length; i++) {
+    const c = p[i]!;
+    const top = groups[groups.length - 1]!;
+    if (c === "\\") {
+      if (/[1-9k]/.test(p[i + 1] ?? "")) return false;
+      i++;
+    } else if (c === "[") {
+      for (i++; i < p.length && p[i] !== "]"; i++) if (p[i] === "\\") i++;
+    } else if (c === "(") {
+      groups.push({ repeat: false, alt: false });
+    } else if (c === ")") {
+      const g = groups.pop()!;
+      const parent = groups[groups.length - 1];
+      if (!parent) return false;
+      const next = p[i + 1];
+      if ((next === "*" || next === "+" || next === "{") && (g.repeat || g.alt)) return false;
+      parent.repeat ||= g.repeat;
+      parent.alt ||= g.alt;
+    } else if (c === "|") {
+      top.alt = true;
+    } else if (c === "*" || c === "+" || c === "{") {
+      top.repeat = true;
+    }
+  }
+  return true;
+}
+
+/** 校验上传表单里的 encoding / patterns（一行一个）/ title：不合法返回 null */
+export function parseTextImportOptions(raw: any): TextImportOptions | null {
+  const encoding = raw?.encoding || "auto";
+  if (typeof encoding !== "string" || !TEXT_ENCODINGS.includes(encoding)) return null;
+  let patterns = DEFAULT_CHAPTER_PATTERNS;
+  if (typeof raw?.patterns === "string" && raw.patterns.trim()) {
+    patterns = raw.patterns
+      .split("\n")
+      .map((p: string) => p.trim())
+      .filter(Boolean);
+    if (patterns.length > MAX_PATTERNS || patterns.some((p) => p.length > 200 || !isSafePattern(p))) return null;
+    try {
+      patterns.forEach(compilePattern);
+    } catch {
+      return null;
+    }
+  }
+  const title = typeof raw?.title === "string" && raw.title.trim() ? raw.title.trim().slice(0, 200) : undefined;
+  return { encoding, patterns, ...(title ? { title } : {}) };
+}
+
+// 猜编码用：中日文最常见的字（简繁都有）和标点；正确的解码命中多，错误的解码多半是生僻字或替换字符
+const COMMON_CHARS = new Set(
+  "的一是不了在人有我他这這个個们們中来來上大为為和国國地到以说說时時要就出会會可也你对對生能而子那得于於着著下自之年过過发發后後作里裡用道行所然家种種事成方多经經么麼去法学學如都同现現当當没沒动動面起看定天分还還进進好小部其些主样樣理心她本前开開但因只从從想实實日本見言思気手間私" +
+    "，。、「」『』！？：；（）…—"
+);
+
+function decodingScore(text: string) {
+  let score = 0;
+  for (const ch of text) {
+    const c = ch.codePointAt(0)!;
+    if (ch === "�") score -= 10;
+    else if (COMMON_CHARS.has(ch)) score += 2;
+    // 平假名、片假名
+    else if ((c >= 0x3041 && c <= 0x30fa) || c === 0x30fc) score += 1;
+  }
+  return score;
+}
+
+/** 解码成字符串；auto 时看 BOM，再试 UTF-8，都不是就在几种中日文编码里挑常用字命中最多的 */
+export function decodeText(buf: Buffer, encoding = "auto") {
+  if (encoding !== "auto") return { text: new TextDecoder(encoding).decode(buf), encoding };
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return { text: new TextDecoder("utf-8").decode(buf), encoding: "utf-8" };
+  if (buf[0] === 0xff && buf[1] === 0xfe) return { text: new TextDecoder("utf-16le").decode(buf), encoding: "utf-16le" };
+  if (buf[0] === 0xfe && buf[1] === 0xff) return { text: new TextDecoder("utf-16be").decode(buf), encoding: "utf-16be" };
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(buf), encoding: "utf-8" };
+  } catch {
+    // not UTF-8
+  }
+  const sample = buf.subarray(0, 64 * 1024);
+  let best = "gb18030";
+  let bestScore = -Infinity;
+  for (const enc of ["gb18030", "big5", "shift_jis", "euc-jp"]) {
+    const score = decodingScore(new TextDecoder(enc).decode(sample));
+    if (score > bestScore) {
+      best = enc;
+      bestScore = score;
+    }
+  }
+  return { text: new TextDecoder(best).decode(buf), encoding: best };
+}
+
+export type TextChapter = { title: string; lines: string[] };
+
+// 标题匹配放到 worker 里跑：isSafePattern 挡不住所有慢的正则（.*.*.*… 是多项式回溯），超时直接终止 worker，
+// 不会卡住服务端的事件循环。正则的拼法和 compilePattern 一样
+const MATCH_WORKER = `
+const { parentPort, workerData } = require("worker_threads");
+const res = workerData.patterns.map((p) => new RegExp("^(?:" + p + ")$", "u"));
+parentPort.postMessage(workerData.lines.map((t) => res.some((re) => re.test(t))));
+`;
+
+function matchHeadings(lines: string[], patterns: string[]) {
+  return new Promise<boolean[]>((resolve, reject) => {
+    const worker = new Worker(MATCH_WORKER, { eval: true, workerData: { lines, patterns } });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new Error("chapter patterns took too long to match"));
+    }, MATCH_TIMEOUT_MS);
+    worker.once("message", (hits: boolean[]) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(hits);
+    });
+    worker.once("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+  });
+}
+
+/**
+ * 按标题行分章。第一个标题之前有内容的话单独成一章（用书名作标题）。
+ * Markdown 的标题行留在正文里（渲染成 h1 / h2），代码块里的行不当标题。
+ */
+export async function splitChapters(text: string, patterns: string[], opts: { title: string; markdown: boolean }) {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  // 先挑出可能是标题的行（不在代码块里、不太长），再一起交给 worker 匹配
+  const candidates = new Map<number, string>();
+  let fenced = false;
+  lines.forEach((line, i) => {
+    if (opts.markdown && /^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    const t = line.trim();
+    if (!fenced && t && t.length <= MAX_HEADING_LENGTH) candidates.set(i, t);
+  });
+  const hits = candidates.size ? await matchHeadings([...candidates.values()], patterns) : [];
+  const headings = new Set([...candidates.keys()].filter((_, k) => hits[k]));
+
+  const chapters: TextChapter[] = [];
+  let current: TextChapter = { title: opts.title, lines: [] };
+  for (const [i, line] of lines.entries()) {
+    const t = line.trim();
+    if (headings.has(i)) {
+      if (current.lines.some((l) => l.trim())) chapters.push(current);
+      const title = opts.markdown ? t.replace(/^#+\s*/, "").replace(/\s*#+$/, "") : t;
+      current = { title: title || t, lines: opts.markdown ? [line] : [] };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  if (current.lines.some((l) => l.trim()) || !chapters.length) chapters.push(current);
+  return chapters;
+}
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** 行内 Markdown：代码、链接、粗体、斜体（图片只留替代文字） */
+function inlineMarkdown(s: string) {
+  return s
+    .split("`")
+    .map((part, i) => {
+      if (i % 2) return `<code>${escapeXml(part)}</code>`;
+      return escapeXml(part)
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '<a href="$2">$1</a>')
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+        .replace(/\*(.+?)\*|\b_(.+?)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`);
+    })
+    .join("");
+}
+
+/** 够用的 Markdown 块级转换：标题、段落、列表、引用、代码块、分隔线 */
+function markdownToXhtml(lines: string[]) {
+  const out: string[] = [];
+  let para: string[] = [];
+  let list: "ul" | "ol" | null = null;
+  let code: string[] | null = null;
+  const flush = () => {
+    if (para.length) out.push(`<p>${inlineMarkdown(para.join("\n"))}</p>`);
+    para = [];
+  };
+  const closeList = () => {
+    if (list) out.push(`</${list}>`);
+    list = null;
+  };
+  for (const line of lines) {
+    const fence = /^\s*(```|~~~)/.test(line);
+    if (code) {
+      if (fence) {
+        out.push(`<pre><code>${escapeXml(code.join("\n"))}</code></pre>`);
+        code = null;
+      } else code.push(line);
+      continue;
+    }
+    const t = line.trim();
+    const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(t);
+    const item = /^(?:([-*+])|\d+[.)])\s+(.*)$/.exec(t);
+    if (!fence && !heading && !item && t && !t.startsWith(">") && !/^([-*_])(\s*\1){2,}$/.test(t)) {
+      closeList();
+      para.push(t);
+      continue;
+    }
+    flush();
+    if (item) {
+      const kind = item[1] ? "ul" : "ol";
+      if (list !== kind) {
+        closeList();
+        out.push(`<${kind}>`);
+        list = kind;
+      }
+      out.push(`<li>${inlineMarkdown(item[2]!)}</li>`);
+      continue;
+    }
+    closeList();
+    if (fence) code = [];
+    else if (heading) out.push(`<h${heading[1]!.length}>${inlineMarkdown(heading[2]!)}</h${heading[1]!.length}>`);
+    else if (t.startsWith(">")) out.push(`<blockquote><p>${inlineMarkdown(t.replace(/^>\s?/, ""))}</p></blockquote>`);
+    else if (t) out.push("<hr/>");
+  }
+  if (code) out.push(`<pre><code>${escapeXml(code.join("\n"))}</code></pre>`);
+  flush();
+  closeList();
+  return out.join("\n");
+}
+
+/** 纯文本：一行一段，空行只是间隔 */
+function plainToXhtml(chapter: TextChapter) {
+  const paras = chapter.lines.map((l) => l.trim()).filter(Boolean);
+  return [`<h2>${escapeXml(chapter.title)}</h2>`, ...paras.map((p) => `<p>${escapeXml(p)}</p>`)].join("\n");
+}
+
+/** 有假名算日文，有汉字算中文 */
+function guessLanguage(text: string) {
+  const sample = text.slice(0, 20000);
+  if (/[ぁ-ゖァ-ヺ]/.test(sample)) return "ja";
+  if (/[一-鿿]/.test(sample)) return "zh";
+  return undefined;
+}
+
+function xhtmlPage(title: string, body: string, lang?: string) {
+  const langAttrs = lang ? ` xml:lang="${lang}" lang="${lang}"` : "";
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"${langAttrs}>
+<head><title>${escapeXml(title)}</title></head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+async function prepareText(buf: Buffer, name: string | undefined, opts: TextImportOptions, fallbackTitle?: string) {
+  const { text, encoding } = decodeText(buf, opts.encoding);
+  const title = opts.title ?? fallbackTitle ?? "Untitled";
+  const markdown = isMarkdown(name);
+  return { text, encoding, title, markdown, chapters: await splitChapters(text, opts.patterns, { title, markdown }) };
+}
+
+/** 分章预览：导入前确认编码和分章是否合适 */
+export async function previewText(
+  buf: Buffer,
+  name: string | undefined,
+  opts: TextImportOptions,
+  fallbackTitle?: string
+) {
+  const { text, encoding, title, chapters } = await prepareText(buf, name, opts, fallbackTitle);
+  return {
+    title,
+    encoding,
+    patterns: opts.patterns,
+    sample: text.slice(0, 400),
+    chapters: chapters.map((c) => ({ title: c.title, chars: c.lines.join("").replace(/\s+/g, "").length })),
+  };
+}
+
+/** 在 workDir 里生成 EPUB 目录（mimetype、container.xml、OPF、nav、各章 XHTML） */
+export async function writeTextBook(
+  workDir: string,
+  buf: Buffer,
+  name: string | undefined,
+  opts: TextImportOptions,
+  fallbackTitle?: string
+) {
+  const { text, title, markdown, chapters } = await prepareText(buf, name, opts, fallbackTitle);
+  const lang = guessLanguage(text);
+  const hrefs = chapters.map((_, i) => `text/${String(i + 1).padStart(4, "0")}.xhtml`);
+
+  await fs.mkdir(path.join(workDir, "META-INF"), { recursive: true });
+  await fs.mkdir(path.join(workDir, "text"), { recursive: true });
+  await fs.writeFile(path.join(workDir, "mimetype"), "application/epub+zip", "utf8");
+  await fs.writeFile(
+    path.join(workDir, "META-INF", "container.xml"),
+    `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
+`,
+    "utf8"
+  );
+  for (const [i, c] of chapters.entries()) {
+    const body = markdown ? markdownToXhtml(c.lines) : plainToXhtml(c);
+    await fs.writeFile(path.join(workDir, hrefs[i]!), xhtmlPage(c.title, body, lang), "utf8");
+  }
+  const nav = chapters.map((c, i) => `<li><a href="${hrefs[i]}">${escapeXml(c.title)}</a></li>`).join("\n");
+  await fs.writeFile(
+    path.join(workDir, "nav.xhtml"),
+    xhtmlPage(title, `<nav epub:type="toc"><ol>\n${nav}\n</ol></nav>`, lang),
+    "utf8"
+  );
+
+  // 同一个文件导入两次得到同一个 identifier，重复检测能认出来
+  const id = crypto.createHash("sha1").update(buf).digest("hex");
+  const items = hrefs.map((h, i) => `<item id="c${i + 1}" href="${h}" media-type="application/xhtml+xml"/>`).join("\n");
+  const refs = hrefs.map((_, i) => `<itemref idref="c${i + 1}"/>`).join("\n");
+  await fs.writeFile(
+    path.join(workDir, "content.opf"),
+    `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="uid">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="uid">urn:sha1:${id}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+${lang ? `<dc:language>${lang}</dc:language>` : ""}
+<meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, "Z")}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+${items}
+</manifest>
+<spine>
+${refs}
+</spine>
+</package>
+`,
+    "utf8"
+  );
+}
@@ -0,0 +1,87 @@
+import { buildTextIndex, rangeFromOffsets, textOffsetOf } from "./dom";
+
+/**
+ * 与排版无关的文本锚点：章节纯文本里的字符偏移，加上引文和前后文。
+ * 书的文件被替换（重新导入）后偏移可能失效，这时按引文 + 前后文重新查找。
+ */
+export type TextAnchor = {
+  startOffset: number;
+  endOffset: number;
+  text: string;
+  prefix: string;
+  suffix: string;
+};
+
+const CONTEXT_CHARS = 32;
+
+export function describeRange(doc: Document, range: Range): TextAnchor | null {
+  if (!doc.body || range.collapsed) return null;
+  const index = buildTextIndex(doc.body);
+  const startOffset = textOffsetOf(index, range.startContainer, range.startOffset);
+  const endOffset = textOffsetOf(index, range.endContainer, range.endOffset);
+  if (endOffset <= startOffset) return null;
+  return {
+    startOffset,
+    endOffset,
+    text: index.text.slice(startOffset, endOffset),
+    prefix: index.text.slice(Math.max(0, startOffset - CONTEXT_CHARS), startOffset),
+    suffix: index.text.slice(endOffset, endOffset + CONTEXT_CHARS),
+  };
+}
+
+function contextScore(text: string, at: number, a: TextAnchor) {
+  let score = 0;
+  const before = text.slice(Math.max(0, at - a.prefix.length), at);
+  for (let i = 1; i <= Math.min(before.length, a.prefix.length); i++) {
+    if (before[before.length - i] !== a.prefix[a.prefix.length - i]) break;
+    score++;
+  }
+  const after = text.slice(at + a.text.length, at + a.text.length + a.suffix.length);
+  for (let i = 0; i < Math.min(after.length, a.suffix.length); i++) {
+    if (after[i] !== a.suffix[i]) break;
+    score++;
+  }
+  return score;
+}
+
+export function resolveAnchor(doc: Document, a: TextAnchor): Range | null {
+  if (!doc.body || !a.text) return null;
+  const index = buildTextIndex(doc.body);
+  if (index.text.slice(a.startOffset, a.endOffset) === a.text) {
+    return rangeFromOffsets(index, a.startOffset, a.endOffset);
+  }
+  // Offsets drifted: pick the occurrence of the quote whose context matches best,
+  // preferring the one closest to the old offset on ties.
+  let best = -1;
+  let bestScore = -1;
+  for (let at = index.text.indexOf(a.text); at >= 0; at = index.text.indexOf(a.text, at + 1)) {
+    const score = contextScore(index.text, at, a);
+    if (score > bestScore || (score === bestScore && Math.abs(at - a.startOffset) < Math.abs(best - a.startOffset))) {
+      best = at;
+      bestScore = score;
+    }
+  }
+  return best >= 0 ? rangeFromOffsets(index, best, best + a.text.length) : null;
+}
+
+const SENTENCE_MAX_CHARS = 200;
+const CLOSING_PUNCT = /[」』）】〉》)"'”’]/;
+
+function isSentenceEnd(text: string, i: number) {
+  const c = text[i]!;
+  if (/[。！？!?\n]/.test(c)) return true;
+  // 英文句点要后面跟空白，避免把 "Mr." "3.5" 切开一半
+  return c === "." && /\s/.test(text[i + 1] ?? " ");
+}
+
+/** 取包含 [start, end) 的整句（生词卡片的例句），句末标点和紧跟的右引号算在句内 */
+export function sentenceAround(text: string, start: number, end: number) {
+  let a = start;
+  while (a > 0 && start - a < SENTENCE_MAX_CHARS && !isSentenceEnd(text, a - 1)) a--;
+  while (a < start && CLOSING_PUNCT.test(text[a]!)) a++;
+  let b = end;
+  while (b < text.length && b - end < SENTENCE_MAX_CHARS && !isSentenceEnd(text, b)) b++;
+  if (b < text.length && isSentenceEnd(text, b)) b++;
+  while (b < text.length && CLOSING_PUNCT.test(text[b]!)) b++;
+  return text.slice(a, b).trim();
+}
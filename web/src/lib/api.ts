@@ -1,4 +1,5 @@
-export type Chapter = { title: string; href: string };
+/** Table-of-contents entry in document order; `parent` is the index of the parent entry */
+export type Chapter = { title: string; href: string; depth?: number; parent?: number | null; playOrder?: number | null };
 export type ImportResult = {
   id: string;
   title: string;
@@ -7,7 +8,18 @@ export type ImportResult = {
   chapters: Chapter[];
   coverHref?: string | null;
   vertical?: boolean;
+  /** Set when an existing book was replaced in place */
+  updated?: boolean;
+  remap?: RemapReport;
 };
+export type PositionKind = "progress" | "bookmark" | "highlight";
+/** How saved positions were carried over to the new spine after a re-import */
+export type RemapReport = {
+  remapped: { kind: PositionKind; id: number | null; from: string; to: string }[];
+  missing: { kind: PositionKind; id: number | null; href: string }[];
+};
+export type DuplicateBook = { id: string; title: string; match: "hash" | "identifier" };
+export type DuplicateAction = "new" | "update";
 export type BookListItem = {
   id: string;
   title: string;
@@ -15,16 +27,237 @@ export type BookListItem = {
   chapterCount: number;
   coverHref?: string | null;
   lastOpenedAt?: number | null;
+  author?: string | null;
+  language?: string | null;
+  publisher?: string | null;
+  pubDate?: string | null;
+  series?: string | null;
+  seriesIndex?: number | null;
+  subjects?: string[];
+  tags?: string[];
+  collectionIds?: number[];
+  /** Whole-book progress 0..1; null if never opened */
+  bookProgression?: number | null;
+  progressUpdatedAt?: number | null;
+};
+export type Creator = { name: string; role?: string | null; fileAs?: string | null };
+export type BookDetail = {
+  id: string;
+  title: string;
+  opfPath: string;
+  createdAt: number;
+  chapters: Chapter[];
+  coverHref?: string | null;
+  lastOpenedAt?: number | null;
+  author?: string | null;
+  authorSort?: string | null;
+  language?: string | null;
+  publisher?: string | null;
+  pubDate?: string | null;
+  description?: string | null;
+  identifier?: string | null;
+  series?: string | null;
+  seriesIndex?: number | null;
+  creators: Creator[];
+  subjects: string[];
+  tags: string[];
+};
+export type BookSort = "title" | "author" | "series" | "opened" | "added";
+export type BookQuery = {
+  q?: string;
+  sort?: BookSort;
+  author?: string;
+  language?: string;
+  subject?: string;
+  collection?: number | null;
+  tag?: string;
+};
+export type Facet = { value: string; count: number };
+export type BookFacets = { authors: Facet[]; languages: Facet[]; subjects: Facet[]; tags: Facet[] };
+export type Collection = { id: number; name: string; createdAt: number; bookCount: number };
+/** textOffset / progression: layout-independent locator (see lib/locator.ts); null on rows saved before it existed */
+export type Progress = {
+  bookId: string;
+  href: string;
+  scrollX: number;
+  scrollY: number;
+  textOffset?: number | null;
+  progression?: number | null;
+  updatedAt: number;
+  bookProgression?: number | null;
+};
+/** Server-computed from per-document character counts and the measured reading speed */
+export type ReadingPosition = {
+  bookProgression: number;
+  chapterProgression: number;
+  totalChars: number;
+  readChars: number;
+  /** null until enough reading time has been measured (also makes the estimates null) */
+  charsPerMinute: number | null;
+  minutesLeft: number | null;
+  chapterMinutesLeft: number | null;
+};
+export type Bookmark = {
+  id: number;
+  bookId: string;
+  href: string;
+  scrollX: number;
+  scrollY: number;
+  textOffset?: number | null;
+  progression?: number | null;
+  title: string;
+  createdAt: number;
+};
+export const HIGHLIGHT_COLORS = ["yellow", "green", "blue", "pink", "purple"] as const;
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+export type Highlight = {
+  id: number;
+  bookId: string;
+  href: string;
+  startOffset: number;
+  endOffset: number;
+  text: string;
+  prefix: string;
+  suffix: string;
+  color: HighlightColor;
+  note: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+export type SearchHit = {
+  bookId: string;
+  bookTitle: string;
+  href: string;
+  chapterTitle: string | null;
+  snippet: string;
+  offset: number;
+  occurrence: number;
 };
-export type BookDetail = { id: string; title: string; opfPath: string; createdAt: number; chapters: Chapter[]; coverHref?: string | null };
-export type Progress = { bookId: string; href: string; scrollX: number; scrollY: number; updatedAt: number };
-export type Bookmark = { id: number; bookId: string; href: string; scrollX: number; scrollY: number; title: string; createdAt: number };
 
-export async function importEpub(file: File): Promise<ImportResult> {
+/**
+ * Without `onDuplicate` the server refuses a book that is already on the shelf;
+ * that case resolves to `{ duplicate }` so the caller can ask what to do.
+ */
+export async function importEpub(
+  file: File,
+  onDuplicate?: DuplicateAction,
+  text?: TextImportOptions
+): Promise<ImportResult | { duplicate: DuplicateBook }> {
+  const fd = textImportForm(file, text);
+  if (onDuplicate) fd.append("onDuplicate", onDuplicate);
+
+  const r = await fetch("/api/books/import", { method: "POST", body: fd });
+  if (r.status === 409) {
+    const body = await r.json();
+    if (body?.duplicate) return { duplicate: body.duplicate as DuplicateBook };
+  }
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** How a .txt / .md file is turned into a book; omitted fields use the server's detection and default heading patterns */
+export type TextImportOptions = {
+  encoding?: string;
+  /** Chapter heading regexes, each matched against a whole trimmed line */
+  patterns?: string[];
+  title?: string;
+};
+
+export type TextImportPreview = {
+  title: string;
+  /** Detected (or requested) encoding */
+  encoding: string;
+  patterns: string[];
+  chapters: { title: string; chars: number }[];
+  /** Start of the decoded text */
+  sample: string;
+};
+
+export const TEXT_ENCODINGS = ["auto", "utf-8", "gb18030", "big5", "shift_jis", "euc-jp", "utf-16le", "utf-16be"];
+
+export function isTextFile(file: File) {
+  return /\.(txt|md|markdown)$/i.test(file.name);
+}
+
+function textImportForm(file: File, text?: TextImportOptions) {
   const fd = new FormData();
   fd.append("file", file);
+  if (text?.encoding) fd.append("encoding", text.encoding);
+  if (text?.patterns?.length) fd.append("patterns", text.patterns.join("\n"));
+  if (text?.title) fd.append("title", text.title);
+  return fd;
+}
 
-  const r = await fetch("/api/books/import", { method: "POST", body: fd });
+/** Decode and split a .txt / .md file without importing it, to check the chapters first */
+export async function previewTextImport(file: File, text?: TextImportOptions): Promise<TextImportPreview> {
+  const r = await fetch("/api/books/import/text/preview", { method: "POST", body: textImportForm(file, text) });
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export type ImportStatus = "queued" | "extracting" | "parsed" | "skipped" | "failed";
+export type ImportJob = {
+  id: string;
+  source: "upload" | "watch";
+  createdAt: number;
+  finishedAt: number | null;
+  files: { name: string; status: ImportStatus; error?: string; bookId?: string; title?: string }[];
+};
+
+/** Queue several EPUBs for import; books already on the shelf are skipped unless `onDuplicate` is given */
+export async function importBatch(files: File[], onDuplicate?: DuplicateAction): Promise<ImportJob> {
+  const fd = new FormData();
+  for (const f of files) fd.append("files", f);
+  if (onDuplicate) fd.append("onDuplicate", onDuplicate);
+
+  const r = await fetch("/api/books/import/batch", { method: "POST", body: fd });
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Recent import jobs, newest first (batch uploads and the watched folder) */
+export async function listImportJobs(): Promise<ImportJob[]> {
+  const r = await fetch("/api/import/jobs");
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Download URL for a zip with the whole library (reading data as JSON plus the original EPUBs) */
+export const backupUrl = "/api/backup";
+
+export type RestoreMode = "merge" | "replace";
+/** What to do in merge mode when a book id from the backup already exists */
+export type RestoreConflict = "skip" | "overwrite" | "copy";
+export type RestoreReport = {
+  mode: RestoreMode;
+  /** Books in the backup, and how many of them were restored */
+  total: number;
+  restoredCount: number;
+  restored: { id: string; title: string; from: string }[];
+  skipped: { id: string; title: string; reason: string }[];
+  failed: { id: string; title: string; error: string }[];
+};
+
+export async function restoreLibrary(
+  file: File,
+  mode: RestoreMode,
+  onConflict: RestoreConflict = "skip"
+): Promise<RestoreReport> {
+  const fd = new FormData();
+  fd.append("file", file);
+  fd.append("mode", mode);
+  fd.append("onConflict", onConflict);
+
+  const r = await fetch("/api/restore", { method: "POST", body: fd });
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Replace a book's files with a new EPUB, keeping its progress, bookmarks, highlights and shelves */
+export async function reimportBook(id: string, file: File, text?: TextImportOptions): Promise<ImportResult> {
+  const fd = textImportForm(file, text);
+
+  const r = await fetch(`/api/books/${id}/reimport`, { method: "POST", body: fd });
   if (!r.ok) throw new Error(await r.text());
   return await r.json();
 }
@@ -39,27 +272,81 @@ export async function getManifest(id: string) {
     chapters?: Chapter[];
     coverHref?: string | null;
     vertical?: boolean;
+    spineChars?: number[];
+    /** Spine documents that only hold footnotes / endnotes */
+    noteDocs?: string[];
+    /** Pre-paginated (fixed-layout) pages, e.g. manga */
+    fixedLayout?: boolean;
+    pageDirection?: "ltr" | "rtl";
+    spreadMode?: "none" | "landscape" | "portrait" | "both" | "auto";
+    /** Parallel to `spine`; only for fixed-layout books */
+    spineLayout?: SpineLayout[];
+    /** EPUB3 Media Overlays narration; null when the book has none */
+    mediaOverlay?: MediaOverlay | null;
   };
 }
 
+/** Per spine item: pre-paginated or not, and which side of a two-page spread it goes on */
+export type SpineLayout = { fixed: boolean; spread?: "left" | "right" | "center" };
+
+/** One narrated fragment: the element with id `fragment` is read in `audio` from `begin` to `end` seconds */
+export type OverlayClip = { fragment?: string; audio: string; begin: number; end?: number };
+export type MediaOverlay = {
+  /** `media:active-class` from the package metadata */
+  activeClass?: string;
+  /** `media:playback-active-class`, set on the document root while playing */
+  playbackActiveClass?: string;
+  /** Parallel to the spine; null for documents without narration */
+  clips: (OverlayClip[] | null)[];
+};
+
 export function resourceUrl(bookId: string, relPath: string) {
   return `/api/books/${bookId}/resource/${relPath}`;
 }
 
-export async function getProgress(id: string): Promise<Progress | null> {
+/** A book document parsed outside the reader iframe (footnote popups); XHTML that fails to parse falls back to HTML */
+export async function getResourceDocument(bookId: string, relPath: string) {
+  const r = await fetch(resourceUrl(bookId, relPath));
+  if (!r.ok) throw new Error(await r.text());
+  const type = r.headers.get("content-type") ?? "";
+  const text = await r.text();
+  const parser = new DOMParser();
+  if (type.includes("xml")) {
+    const doc = parser.parseFromString(text, "application/xhtml+xml");
+    if (!doc.querySelector("parsererror")) return doc;
+  }
+  return parser.parseFromString(text, "text/html");
+}
+
+export async function getProgress(
+  id: string
+): Promise<{ progress: Progress; position: ReadingPosition | null } | null> {
   const r = await fetch(`/api/books/${id}/progress`);
   if (!r.ok) throw new Error(await r.text());
   const data = await r.json();
-  return data?.ok ? (data.progress as Progress) : null;
+  return data?.ok ? { progress: data.progress as Progress, position: data.position ?? null } : null;
 }
 
-export async function saveProgress(id: string, p: Omit<Progress, "bookId" | "updatedAt">): Promise<void> {
+export async function saveProgress(
+  id: string,
+  p: Omit<Progress, "bookId" | "updatedAt" | "bookProgression">
+): Promise<ReadingPosition | null> {
   const r = await fetch(`/api/books/${id}/progress`, {
     method: "PUT",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(p),
   });
   if (!r.ok) throw new Error(await r.text());
+  return (await r.json()).position ?? null;
+}
+
+/** "3 h 20 min" / "12 min"; null when there is no estimate yet */
+export function formatMinutes(min: number | null) {
+  if (min == null) return null;
+  if (min < 60) return `${Math.max(1, min)} min`;
+  const h = Math.floor(min / 60);
+  const m = min % 60;
+  return m ? `${h} h ${m} min` : `${h} h`;
 }
 
 export async function listBookmarks(id: string): Promise<Bookmark[]> {
@@ -84,8 +371,55 @@ export async function deleteBookmark(id: string, bmId: number): Promise<void> {
   if (!r.ok) throw new Error(await r.text());
 }
 
-export async function listBooks(): Promise<BookListItem[]> {
-  const r = await fetch("/api/books");
+export async function listHighlights(id: string): Promise<Highlight[]> {
+  const r = await fetch(`/api/books/${id}/highlights`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function addHighlight(
+  id: string,
+  h: Omit<Highlight, "id" | "bookId" | "createdAt" | "updatedAt">
+): Promise<number> {
+  const r = await fetch(`/api/books/${id}/highlights`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(h),
+  });
+  if (!r.ok) throw new Error(await r.text());
+  const data = await r.json();
+  return data.id as number;
+}
+
+export async function updateHighlight(
+  id: string,
+  hlId: number,
+  patch: { color?: HighlightColor; note?: string | null }
+): Promise<void> {
+  const r = await fetch(`/api/books/${id}/highlights/${hlId}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function deleteHighlight(id: string, hlId: number): Promise<void> {
+  const r = await fetch(`/api/books/${id}/highlights/${hlId}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function listBooks(query: BookQuery = {}): Promise<BookListItem[]> {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) if (v != null && v !== "") qs.set(k, String(v));
+  const search = qs.toString();
+  const r = await fetch(`/api/books${search ? `?${search}` : ""}`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function getFacets(): Promise<BookFacets> {
+  const r = await fetch("/api/books/facets");
   if (!r.ok) throw new Error(await r.text());
   return await r.json();
 }
@@ -105,3 +439,391 @@ export async function markOpened(id: string): Promise<void> {
   const r = await fetch(`/api/books/${id}/opened`, { method: "PUT" });
   if (!r.ok) throw new Error(await r.text());
 }
+
+export async function searchBook(id: string, q: string): Promise<SearchHit[]> {
+  const r = await fetch(`/api/books/${id}/search?q=${encodeURIComponent(q)}`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function searchLibrary(q: string): Promise<SearchHit[]> {
+  const r = await fetch(`/api/search?q=${encodeURIComponent(q)}`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function listCollections(): Promise<Collection[]> {
+  const r = await fetch("/api/collections");
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function createCollection(name: string): Promise<number> {
+  const r = await fetch("/api/collections", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+  const data = await r.json();
+  return data.id as number;
+}
+
+export async function renameCollection(cid: number, name: string): Promise<void> {
+  const r = await fetch(`/api/collections/${cid}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function deleteCollection(cid: number): Promise<void> {
+  const r = await fetch(`/api/collections/${cid}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+/** Adds books to a collection; with `from`, moves them out of that collection */
+export async function addToCollection(cid: number, bookIds: string[], from?: number): Promise<void> {
+  const r = await fetch(`/api/collections/${cid}/books`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ bookIds, from }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function removeFromCollection(cid: number, bookId: string): Promise<void> {
+  const r = await fetch(`/api/collections/${cid}/books/${bookId}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function setBookTags(id: string, tags: string[]): Promise<void> {
+  const r = await fetch(`/api/books/${id}/tags`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ tags }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function applyTags(bookIds: string[], change: { add?: string[]; remove?: string[] }): Promise<void> {
+  const r = await fetch("/api/tags/apply", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ bookIds, ...change }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+/** Imported Yomitan-format dictionary; lower `priority` is shown first */
+export type Dictionary = {
+  id: number;
+  title: string;
+  revision: string;
+  priority: number;
+  enabled: boolean;
+  termCount: number;
+  importedAt: number;
+};
+export type LookupEntry = {
+  expression: string;
+  reading: string;
+  /** Matched text as it appears in the book, and its length */
+  source: string;
+  length: number;
+  /** Inflections undone to reach the dictionary form, e.g. ["polite", "past"] */
+  reasons: string[];
+  definitions: { dictId: number; dictTitle: string; glossary: string[]; definitionTags: string; termTags: string }[];
+};
+export type LookupResult = { length: number; entries: LookupEntry[] };
+
+export async function listDictionaries(): Promise<Dictionary[]> {
+  const r = await fetch("/api/dict");
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function importDictionary(file: File): Promise<{ id: number; title: string; termCount: number }> {
+  const fd = new FormData();
+  fd.append("file", file);
+
+  const r = await fetch("/api/dict/import", { method: "POST", body: fd });
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function setDictionaryEnabled(id: number, enabled: boolean): Promise<void> {
+  const r = await fetch(`/api/dict/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ enabled }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function reorderDictionaries(ids: number[]): Promise<void> {
+  const r = await fetch("/api/dict/order", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function deleteDictionary(id: number): Promise<void> {
+  const r = await fetch(`/api/dict/${id}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+/** Longest-match lookup from the start of `text` (with Japanese deinflection) */
+export async function lookupWord(text: string): Promise<LookupResult> {
+  const r = await fetch(`/api/dict/lookup?text=${encodeURIComponent(text)}`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Saved word with its sentence; offsets point back into the chapter text */
+export type VocabCard = {
+  id: number;
+  bookId: string;
+  bookTitle: string;
+  href: string;
+  chapterTitle: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  expression: string;
+  reading: string;
+  /** One definition per line */
+  glossary: string;
+  sentence: string;
+  note: string;
+  /** Space-separated, as in Anki */
+  tags: string;
+  createdAt: number;
+  updatedAt: number;
+};
+export type VocabInput = Pick<VocabCard, "bookId" | "href" | "expression"> &
+  Partial<Pick<VocabCard, "chapterTitle" | "startOffset" | "endOffset" | "reading" | "glossary" | "sentence" | "note" | "tags">>;
+export type VocabPatch = Partial<Pick<VocabCard, "expression" | "reading" | "glossary" | "sentence" | "note" | "tags">>;
+/** One Anki note field: `template` may use {expression} {reading} {glossary} {sentence} {note} {book} {chapter} {link} */
+export type AnkiField = { name: string; template: string };
+export type VocabExport = { format: "tsv" | "apkg"; deck: string; fields: AnkiField[]; ids?: number[] };
+
+export async function listVocab(query: { bookId?: string; q?: string } = {}): Promise<VocabCard[]> {
+  const qs = new URLSearchParams();
+  if (query.bookId) qs.set("bookId", query.bookId);
+  if (query.q) qs.set("q", query.q);
+  const r = await fetch(`/api/vocab?${qs}`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function addVocab(v: VocabInput): Promise<number> {
+  const r = await fetch("/api/vocab", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(v),
+  });
+  if (!r.ok) throw new Error(await r.text());
+  const data = await r.json();
+  return data.id as number;
+}
+
+export async function updateVocab(vocabId: number, patch: VocabPatch): Promise<void> {
+  const r = await fetch(`/api/vocab/${vocabId}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function deleteVocab(vocabId: number): Promise<void> {
+  const r = await fetch(`/api/vocab/${vocabId}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export function vocabExportUrl(opts: VocabExport) {
+  const qs = new URLSearchParams({
+    format: opts.format,
+    deck: opts.deck,
+    fields: JSON.stringify(opts.fields),
+    origin: location.origin,
+  });
+  if (opts.ids) qs.set("ids", opts.ids.join(","));
+  return `/api/vocab/export?${qs}`;
+}
+
+/** Reader URL that opens the book at a saved word */
+export function vocabReaderUrl(v: VocabCard) {
+  const qs = new URLSearchParams({ id: v.bookId, href: v.href });
+  if (v.startOffset != null) qs.set("offset", String(v.startOffset));
+  if (v.startOffset != null && v.endOffset != null) qs.set("length", String(v.endOffset - v.startOffset));
+  return `/reader?${qs}`;
+}
+
+export const JLPT_LEVELS = ["n5", "n4", "n3", "n2", "n1"] as const;
+export type JlptLevel = (typeof JLPT_LEVELS)[number];
+/** Kanji introduced at each JLPT level, as one string per level */
+export type KanjiLevels = Record<JlptLevel, string>;
+
+/** Morphological-analyzer readings for kanji in each text, as offsets into that text */
+export async function getFurigana(texts: string[]): Promise<{ start: number; end: number; reading: string }[][]> {
+  const r = await fetch("/api/furigana", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ texts }),
+  });
+  if (!r.ok) throw new Error(await r.text());
+  const data = await r.json();
+  return data.spans;
+}
+
+export async function getKanjiLevels(): Promise<KanjiLevels> {
+  const r = await fetch("/api/furigana/kanji-levels");
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Reader appearance; `null` / "" / "book" keep the book's own styling */
+export type ReaderSettings = {
+  vertical: boolean;
+  layoutMode: "scroll" | "paged";
+  fixedPage: boolean;
+  pageAspect: number;
+  fontSize: number;
+  fontFamily: string;
+  lineHeight: number | null;
+  lineLength: number;
+  margin: number;
+  textAlign: "book" | "start" | "justify";
+  paragraphSpacing: number | null;
+  rubyMode: "show" | "hide" | "hover" | "level";
+  rubyLevel: JlptLevel;
+  autoFurigana: boolean;
+  /** Built-in theme id or a custom theme's id; app-wide, never a per-book override */
+  theme: string;
+  invertImages: boolean;
+  /** Skip footnote / endnote documents in the chapter list and chapter stepping */
+  hideNoteDocs: boolean;
+  /** Scroll layout only: load neighbouring chapters as one continuous strip */
+  continuous: boolean;
+  /** Fixed-layout books: "auto" shows two-page spreads when the window is landscape */
+  fixedSpread: "auto" | "single" | "double";
+};
+
+/** Global defaults (complete, merged over the built-in ones) */
+export async function getSettings(): Promise<ReaderSettings> {
+  const r = await fetch("/api/settings");
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function saveSettings(s: Partial<ReaderSettings>): Promise<ReaderSettings> {
+  const r = await fetch("/api/settings", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(s),
+  });
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Only the keys this book overrides */
+export async function getBookSettings(id: string): Promise<Partial<ReaderSettings>> {
+  const r = await fetch(`/api/books/${id}/settings`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export async function saveBookSettings(id: string, overrides: Partial<ReaderSettings>): Promise<void> {
+  const r = await fetch(`/api/books/${id}/settings`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(overrides),
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function resetBookSettings(id: string): Promise<void> {
+  const r = await fetch(`/api/books/${id}/settings`, { method: "DELETE" });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export type CustomTheme = {
+  id: string;
+  name: string;
+  background: string;
+  text: string;
+  link: string;
+  selection: string;
+};
+
+export async function listThemes(): Promise<CustomTheme[]> {
+  const r = await fetch("/api/themes");
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+/** Replaces the whole list of custom themes */
+export async function saveThemes(themes: CustomTheme[]): Promise<CustomTheme[]> {
+  const r = await fetch("/api/themes", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(themes),
+  });
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export type ReadingSession = {
+  id: number;
+  clientId: string;
+  bookId: string;
+  bookTitle: string;
+  href: string;
+  chapterTitle: string | null;
+  startedAt: number;
+  endedAt: number;
+  activeMs: number;
+  chars: number;
+  startProgression: number | null;
+  endProgression: number | null;
+};
+export type SessionInput = Omit<ReadingSession, "id" | "bookId" | "bookTitle">;
+
+/** Creates or updates the session with the same clientId; `keepalive` lets it finish while the page unloads */
+export async function saveSession(bookId: string, s: SessionInput): Promise<void> {
+  const r = await fetch(`/api/books/${bookId}/sessions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(s),
+    keepalive: true,
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+export async function listSessions(bookId: string): Promise<ReadingSession[]> {
+  const r = await fetch(`/api/books/${bookId}/sessions`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
+
+export type StatsDay = { day: string; activeMs: number; chars: number; sessions: number };
+export type StatsBook = {
+  bookId: string;
+  bookTitle: string;
+  activeMs: number;
+  chars: number;
+  sessions: number;
+  lastReadAt: number;
+  finishedAt: number | null;
+};
+
+/** Days are local dates ("YYYY-MM-DD"); only days with reading are listed */
+export async function getStats(): Promise<{ days: StatsDay[]; books: StatsBook[] }> {
+  const r = await fetch(`/api/stats?tz=${new Date().getTimezoneOffset()}`);
+  if (!r.ok) throw new Error(await r.text());
+  return await r.json();
+}
@@ -0,0 +1,224 @@
+// iframe 内文本相关的工具函数。
+// 跳过 ruby 注音（rt/rp）和脚本样式，和服务端 htmlToText 的纯文本保持一致。
+const SKIP_TAGS = new Set(["rt", "rp", "script", "style"]);
+
+function isSkipped(node: Node) {
+  for (let el = node.parentElement; el; el = el.parentElement) {
+    if (SKIP_TAGS.has(el.localName.toLowerCase())) return true;
+  }
+  return false;
+}
+
+export function textNodes(root: Node): Text[] {
+  const doc = root.ownerDocument ?? (root as Document);
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (n) => (isSkipped(n) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT),
+  });
+  const out: Text[] = [];
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) out.push(n as Text);
+  return out;
+}
+
+/** 文本节点 + 每个节点在拼接后纯文本里的起始偏移 */
+export type TextIndex = { nodes: Text[]; starts: number[]; text: string };
+
+export function buildTextIndex(root: Node): TextIndex {
+  const nodes = textNodes(root);
+  const starts: number[] = [];
+  let text = "";
+  for (const t of nodes) {
+    starts.push(text.length);
+    text += t.data;
+  }
+  return { nodes, starts, text };
+}
+
+// 服务端 htmlToText 当作块级的标签：前后算一个空白
+const BLOCK_TAGS = new Set([
+  "p", "div", "br", "hr", "h1", "h2", "h3", "h4", "h5", "h6", "li", "tr", "td", "th",
+  "section", "article", "blockquote", "figure", "figcaption", "header", "footer",
+]);
+
+function blockAncestors(node: Node) {
+  const out: Element[] = [];
+  for (let el = node.parentElement; el; el = el.parentElement) {
+    if (BLOCK_TAGS.has(el.localName.toLowerCase())) out.push(el);
+  }
+  return out;
+}
+
+/**
+ * 和服务端 htmlToText 同样规整的纯文本（全文搜索的 occurrence 按它数）：块级元素的边界算空白，
+ * 连续空白合成一个空格，去掉首尾空白。map[i] 是第 i 个字符在 buildTextIndex 原文里的偏移。
+ */
+export function normalizedText(root: Node): { text: string; map: number[] } {
+  const doc = root.ownerDocument ?? (root as Document);
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: (n) =>
+      n.nodeType === Node.ELEMENT_NODE && SKIP_TAGS.has((n as Element).localName.toLowerCase())
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  let text = "";
+  const map: number[] = [];
+  let raw = 0;
+  let space = false;
+  let prevBlocks: Element[] = [];
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    if (n.nodeType === Node.ELEMENT_NODE) {
+      // 进入块级元素（包括空的 <br>、<hr>）
+      if (BLOCK_TAGS.has((n as Element).localName.toLowerCase())) space = true;
+      continue;
+    }
+    const t = n as Text;
+    // 离开了上一段文字所在的块
+    if (prevBlocks.some((b) => !b.contains(t))) space = true;
+    prevBlocks = blockAncestors(t);
+    for (let i = 0; i < t.data.length; i++) {
+      const ch = t.data[i]!;
+      if (/\s/.test(ch)) {
+        space = true;
+        continue;
+      }
+      if (space && text) {
+        text += " ";
+        map.push(raw + i);
+      }
+      space = false;
+      text += ch;
+      map.push(raw + i);
+    }
+    raw += t.data.length;
+  }
+  return { text, map };
+}
+
+/** 两套插入点 API 各浏览器只实现了其中一个，都当可选的 */
+type CaretDocument = {
+  caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null;
+  caretRangeFromPoint?: (x: number, y: number) => Range | null;
+};
+
+/** 视口坐标处的插入点（Firefox 用 caretPositionFromPoint，Chromium/WebKit 用 caretRangeFromPoint） */
+export function caretAt(doc: Document, x: number, y: number): { node: Node; offset: number } | null {
+  const caretDoc: CaretDocument = doc;
+  if (typeof caretDoc.caretPositionFromPoint === "function") {
+    const p = caretDoc.caretPositionFromPoint(x, y);
+    if (p?.offsetNode) return { node: p.offsetNode, offset: p.offset };
+  }
+  if (typeof caretDoc.caretRangeFromPoint === "function") {
+    const r = caretDoc.caretRangeFromPoint(x, y);
+    if (r) return { node: r.startContainer, offset: r.startOffset };
+  }
+  return null;
+}
+
+/**
+ * 指针下的字符及其后的文本（用于查词）。插入点 API 在空白处也会返回最近的位置，
+ * 所以要确认指针确实落在该字符（或前一个字符）的矩形里。
+ */
+export function textAtPoint(doc: Document, x: number, y: number, maxLength: number) {
+  const caret = caretAt(doc, x, y);
+  if (!caret || caret.node.nodeType !== Node.TEXT_NODE || !doc.body) return null;
+  const t = caret.node as Text;
+  if (isSkipped(t)) return null;
+  const probe = doc.createRange();
+  const hits = (at: number) => {
+    if (at < 0 || at >= t.data.length) return false;
+    probe.setStart(t, at);
+    probe.setEnd(t, at + 1);
+    return Array.from(probe.getClientRects()).some((r) => x >= r.left && x <= r.right && y >= r.top && y <= r.bottom);
+  };
+  // 指针在字符后半部分时插入点会落在下一个字符之前
+  const at = hits(caret.offset) ? caret.offset : hits(caret.offset - 1) ? caret.offset - 1 : -1;
+  if (at < 0 || !t.data[at]!.trim()) return null;
+  const index = buildTextIndex(doc.body);
+  const offset = textOffsetOf(index, t, at);
+  return { index, offset, text: index.text.slice(offset, offset + maxLength) };
+}
+
+/** DOM 位置 (node, offset) 转成纯文本偏移；node 不是文本节点时取它前面的文本长度 */
+export function textOffsetOf(index: TextIndex, node: Node, offset: number) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const i = index.nodes.indexOf(node as Text);
+    if (i >= 0) return index.starts[i]! + offset;
+  }
+  const probe = node.ownerDocument!.createRange();
+  probe.setStart(node, offset);
+  for (let i = 0; i < index.nodes.length; i++) {
+    const t = index.nodes[i]!;
+    // 第一个位于 probe 之后的文本节点，它的起点就是偏移
+    if (probe.comparePoint(t, 0) >= 0) return index.starts[i]!;
+  }
+  return index.text.length;
+}
+
+export function rangeFromOffsets(index: TextIndex, start: number, end: number): Range | null {
+  const { nodes, starts } = index;
+  if (!nodes.length) return null;
+  const locate = (pos: number, preferNext: boolean) => {
+    let found = { node: nodes[0]!, offset: 0 };
+    nodes.forEach((node, i) => {
+      const s = starts[i]!;
+      const e = s + node.data.length;
+      if (pos >= s && (pos < e || (pos === e && !preferNext))) found = { node, offset: pos - s };
+    });
+    return found;
+  };
+  const a = locate(start, true);
+  const b = locate(end, false);
+  const range = a.node.ownerDocument.createRange();
+  range.setStart(a.node, a.offset);
+  range.setEnd(b.node, b.offset);
+  return range;
+}
+
+/** 找到第 n 次出现的 q（不区分大小写，在 normalizedText 上数，和服务端的计数一致），返回对应的 Range */
+export function findOccurrence(doc: Document, q: string, n: number): Range | null {
+  if (!q || !doc.body) return null;
+  const { text, map } = normalizedText(doc.body);
+  const hay = text.toLowerCase();
+  const needle = q.toLowerCase();
+  let at = -1;
+  for (let i = 0, from = 0; i <= n; i++) {
+    at = hay.indexOf(needle, from);
+    if (at < 0) return null;
+    from = at + needle.length;
+  }
+  return rangeFromOffsets(buildTextIndex(doc.body), map[at]!, map[at + needle.length - 1]! + 1);
+}
+
+/** 用 <mark> 包住 Range 覆盖的每一段文本，返回生成的元素 */
+export function markRange(range: Range, className: string, attrs: Record<string, string> = {}) {
+  const doc = range.startContainer.ownerDocument;
+  if (!doc) return [];
+  const root = range.commonAncestorContainer;
+  const nodes = root.nodeType === Node.TEXT_NODE ? [root as Text] : textNodes(root);
+  const marks: HTMLElement[] = [];
+  for (const t of nodes) {
+    if (!range.intersectsNode(t)) continue;
+    const s = t === range.startContainer ? range.startOffset : 0;
+    const e = t === range.endContainer ? range.endOffset : t.data.length;
+    if (e <= s) continue;
+    let target = t;
+    if (s > 0) target = target.splitText(s);
+    if (e - s < target.data.length) target.splitText(e - s);
+    const mark = doc.createElement("mark");
+    mark.className = className;
+    for (const [k, v] of Object.entries(attrs)) mark.setAttribute(k, v);
+    target.parentNode?.insertBefore(mark, target);
+    mark.appendChild(target);
+    marks.push(mark);
+  }
+  return marks;
+}
+
+export function clearMarks(doc: Document, className: string) {
+  doc.querySelectorAll(`mark.${className}`).forEach((m) => {
+    const parent = m.parentNode;
+    if (!parent) return;
+    while (m.firstChild) parent.insertBefore(m.firstChild, m);
+    parent.removeChild(m);
+    parent.normalize();
+  });
+}
@@ -0,0 +1,278 @@
+import { resourceUrl, type SpineLayout } from "./api";
+
+// 固定版式（pre-paginated，漫画、绘本）：每页一个 iframe，按页面自己声明的尺寸排版（不注入重排样式），
+// 再用 transform 整体缩放到放得下视口。两页模式时按 page-spread-left / right 和翻页方向拼成跨页。
+// 放大后外层容器可以滚动，拖动或滚轮平移；Ctrl + 滚轮缩放。
+
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+/** 量不出尺寸时先按这个大小排 */
+const FALLBACK_SIZE = { width: 1000, height: 1414 };
+
+type Size = { width: number; height: number };
+
+/** 一屏显示的页面 */
+export type Spread = {
+  /** 阅读顺序（spine 下标从小到大） */
+  pages: number[];
+  /** 从左到右摆放；null 是空着的半边 */
+  slots: (number | null)[];
+};
+
+/**
+ * 把固定版式的 spine 文档拼成一屏一屏。两页模式下，先读的一页在右（从右往左读）或左（从左往右读），
+ * 书里写了 page-spread-left / right 的按书的来；center 和重排（reflowable）的文档单独成屏 / 不参与。
+ */
+export function buildSpreads(
+  layouts: SpineLayout[],
+  opts: { rtl: boolean; double: boolean; include: (index: number) => boolean }
+): Spread[] {
+  const first = opts.rtl ? "right" : "left";
+  const second = opts.rtl ? "left" : "right";
+  const spreads: Spread[] = [];
+  // 两页模式下落单的页也留出另一半，装订线保持在中间
+  const alone = (i: number, side?: "left" | "right") =>
+    spreads.push({ pages: [i], slots: side === "left" ? [i, null] : side === "right" ? [null, i] : [i] });
+  let pending: number | null = null;
+  const flush = () => {
+    if (pending != null) alone(pending, first);
+    pending = null;
+  };
+
+  layouts.forEach((layout, i) => {
+    if (!opts.include(i)) return;
+    if (!layout.fixed) return flush();
+    if (!opts.double) {
+      alone(i);
+      return;
+    }
+    const side = layout.spread ?? (pending != null ? second : first);
+    if (side === "center") {
+      flush();
+      alone(i);
+      return;
+    }
+    if (pending != null && side === second) {
+      spreads.push({ pages: [pending, i], slots: opts.rtl ? [i, pending] : [pending, i] });
+      pending = null;
+      return;
+    }
+    flush();
+    if (side === first) pending = i;
+    else alone(i, side);
+  });
+  flush();
+  return spreads;
+}
+
+/** 页面声明的尺寸：viewport meta，其次是只有一张图（SVG 或 img）的页面的图片尺寸 */
+function declaredSize(doc: Document): { size: Size; imageOnly: boolean } {
+  const meta = doc.querySelector('meta[name="viewport"]')?.getAttribute("content") ?? "";
+  const read = (key: string) => Number(new RegExp(`${key}\\s*=\\s*([\\d.]+)`).exec(meta)?.[1]);
+  const width = read("width");
+  const height = read("height");
+  if (width > 0 && height > 0) return { size: { width, height }, imageOnly: false };
+
+  const root = doc.documentElement;
+  if (root.localName === "svg" || !doc.body?.textContent?.trim()) {
+    const box = doc.querySelector("svg")?.getAttribute("viewBox")?.trim().split(/[\s,]+/).map(Number);
+    if (box?.length === 4 && box[2]! > 0 && box[3]! > 0) return { size: { width: box[2]!, height: box[3]! }, imageOnly: true };
+    const img = doc.images.length === 1 ? doc.images[0]! : null;
+    if (img?.naturalWidth) return { size: { width: img.naturalWidth, height: img.naturalHeight }, imageOnly: true };
+  }
+  return { size: { width: root.scrollWidth || FALLBACK_SIZE.width, height: root.scrollHeight || FALLBACK_SIZE.height }, imageOnly: false };
+}
+
+type Slot = { index: number | null; box: HTMLDivElement; iframe: HTMLIFrameElement | null; size: Size | null };
+
+export function createFixedLayout(opts: {
+  host: HTMLElement;
+  bookId: string;
+  hrefOf: (index: number) => string | undefined;
+  /** 当前设置下的全部跨页；窗口横竖变了会重新取 */
+  spreads: (landscape: boolean) => Spread[];
+  /** 页面文档加载完：挂事件 */
+  prepare: (doc: Document, index: number) => void;
+  /** 换了一屏（页面不一定已经加载完） */
+  onShow: (spread: Spread) => void;
+  /** 滚轮翻页；dir 按阅读顺序 */
+  turn: (dir: 1 | -1) => void;
+  onZoom: (zoom: number) => void;
+}) {
+  const scroller = document.createElement("div");
+  scroller.style.cssText = "width:100%;height:100%;overflow:auto;touch-action:none;";
+  const stage = document.createElement("div");
+  stage.style.cssText =
+    "display:flex;align-items:center;justify-content:center;width:max-content;min-width:100%;min-height:100%;";
+  scroller.appendChild(stage);
+  opts.host.appendChild(scroller);
+
+  let spreads: Spread[] = [];
+  let at = -1;
+  let slots: Slot[] = [];
+  let zoom = 1;
+  let lastTurn = 0;
+  const isLandscape = () => scroller.clientWidth > scroller.clientHeight;
+  let landscape = isLandscape();
+
+  function layout() {
+    const width = scroller.clientWidth;
+    const height = scroller.clientHeight;
+    if (!width || !height || !slots.length) return;
+    // 空着的半边和还没加载的页按旁边那页的尺寸占位
+    const known = slots.find((s) => s.size)?.size ?? FALLBACK_SIZE;
+    const sizes = slots.map((s) => s.size ?? known);
+    const totalWidth = sizes.reduce((a, s) => a + s.width, 0);
+    const maxHeight = Math.max(...sizes.map((s) => s.height));
+    const scale = Math.min(width / totalWidth, height / maxHeight) * zoom;
+    slots.forEach((slot, k) => {
+      const size = sizes[k]!;
+      slot.box.style.width = `${Math.floor(size.width * scale)}px`;
+      slot.box.style.height = `${Math.floor(size.height * scale)}px`;
+      if (!slot.iframe) return;
+      slot.iframe.style.transform = `scale(${scale})`;
+      // 放大后拖动平移，鼠标事件交给外层容器
+      slot.iframe.style.pointerEvents = zoom > 1 ? "none" : "";
+    });
+    scroller.style.cursor = zoom > 1 ? "grab" : "";
+  }
+
+  function onWheel(e: WheelEvent) {
+    if (e.ctrlKey) {
+      e.preventDefault();
+      setZoom(zoom * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+      return;
+    }
+    // 放大时滚轮用来平移
+    if (zoom > 1) return;
+    e.preventDefault();
+    const delta = e.deltaY || e.deltaX;
+    if (!delta || Date.now() - lastTurn < 350) return;
+    lastTurn = Date.now();
+    opts.turn(delta > 0 ? 1 : -1);
+  }
+
+  function createSlot(index: number | null): Slot {
+    const box = document.createElement("div");
+    box.style.cssText = "flex:none;position:relative;overflow:hidden;";
+    stage.appendChild(box);
+    const slot: Slot = { index, box, iframe: null, size: null };
+    if (index == null) return slot;
+
+    const iframe = document.createElement("iframe");
+    iframe.style.cssText =
+      `position:absolute;left:0;top:0;border:0;transform-origin:0 0;visibility:hidden;` +
+      `width:${FALLBACK_SIZE.width}px;height:${FALLBACK_SIZE.height}px;`;
+    iframe.addEventListener("load", () => {
+      const doc = iframe.contentDocument;
+      if (!doc?.documentElement || !slots.includes(slot)) return;
+      const { size, imageOnly } = declaredSize(doc);
+      const style = doc.createElement("style");
+      style.textContent = `html { overflow: hidden !important; }${imageOnly ? " body { margin: 0; }" : ""}`;
+      (doc.head ?? doc.documentElement).appendChild(style);
+      slot.size = size;
+      iframe.style.width = `${size.width}px`;
+      iframe.style.height = `${size.height}px`;
+      iframe.style.visibility = "";
+      doc.addEventListener("wheel", onWheel, { passive: false });
+      opts.prepare(doc, index);
+      layout();
+    });
+    slot.iframe = iframe;
+    box.appendChild(iframe);
+    iframe.src = resourceUrl(opts.bookId, opts.hrefOf(index) ?? "");
+    return slot;
+  }
+
+  function show(n: number) {
+    for (const s of slots) s.box.remove();
+    at = n;
+    const spread = spreads[n]!;
+    slots = spread.slots.map(createSlot);
+    layout();
+    scroller.scrollLeft = 0;
+    scroller.scrollTop = 0;
+    opts.onShow(spread);
+  }
+
+  function open(index: number) {
+    const n = spreads.findIndex((s) => s.pages.includes(index));
+    if (n < 0) return false;
+    if (n !== at) show(n);
+    return true;
+  }
+
+  function refresh() {
+    const index = spreads[at]?.pages[0];
+    spreads = opts.spreads(landscape);
+    at = -1;
+    if (index != null) open(index);
+  }
+
+  /** 以视口中心为准缩放 */
+  function setZoom(value: number) {
+    const next = Math.min(MAX_ZOOM, Math.max(1, value));
+    if (next === zoom) return;
+    const cx = (scroller.scrollLeft + scroller.clientWidth / 2) / scroller.scrollWidth;
+    const cy = (scroller.scrollTop + scroller.clientHeight / 2) / scroller.scrollHeight;
+    zoom = next;
+    layout();
+    scroller.scrollLeft = cx * scroller.scrollWidth - scroller.clientWidth / 2;
+    scroller.scrollTop = cy * scroller.scrollHeight - scroller.clientHeight / 2;
+    opts.onZoom(zoom);
+  }
+
+  let drag: { x: number; y: number; left: number; top: number; id: number } | null = null;
+  scroller.addEventListener("pointerdown", (e) => {
+    if (zoom <= 1 || e.button !== 0) return;
+    drag = { x: e.clientX, y: e.clientY, left: scroller.scrollLeft, top: scroller.scrollTop, id: e.pointerId };
+    scroller.setPointerCapture(e.pointerId);
+    scroller.style.cursor = "grabbing";
+  });
+  scroller.addEventListener("pointermove", (e) => {
+    if (!drag || e.pointerId !== drag.id) return;
+    scroller.scrollLeft = drag.left - (e.clientX - drag.x);
+    scroller.scrollTop = drag.top - (e.clientY - drag.y);
+  });
+  const endDrag = () => {
+    drag = null;
+    if (zoom > 1) scroller.style.cursor = "grab";
+  };
+  scroller.addEventListener("pointerup", endDrag);
+  scroller.addEventListener("pointercancel", endDrag);
+  scroller.addEventListener("wheel", onWheel, { passive: false });
+
+  const observer = new ResizeObserver(() => {
+    if (isLandscape() === landscape) return layout();
+    // 横竖屏切换，自动模式下单页 / 两页会变
+    landscape = isLandscape();
+    refresh();
+  });
+  observer.observe(scroller);
+
+  spreads = opts.spreads(landscape);
+
+  return {
+    /** 打开包含这个 spine 文档的那一屏；不是固定版式的文档返回 false */
+    open,
+    /** 设置变了（单页 / 两页、隐藏的文档），重新拼跨页 */
+    refresh,
+    current: () => spreads[at] ?? null,
+    iframeOf(index: number) {
+      return slots.find((s) => s.index === index)?.iframe ?? null;
+    },
+    setZoom,
+    zoomStep(dir: 1 | -1) {
+      setZoom(zoom * ZOOM_STEP ** dir);
+    },
+    destroy() {
+      observer.disconnect();
+      slots = [];
+      spreads = [];
+      at = -1;
+      scroller.remove();
+    },
+  };
+}
+
+export type FixedLayout = ReturnType<typeof createFixedLayout>;
@@ -0,0 +1,111 @@
+import { buildTextIndex, caretAt, rangeFromOffsets, textOffsetOf } from "./dom";
+
+/**
+ * 与排版无关的阅读位置（类似 CFI）：
+ * textOffset 是视口起始处第一个可见字符在章节纯文本中的偏移，
+ * progression 是章内滚动进度（0..1），没有文字的页面（插图）用它兜底。
+ */
+export type Locator = { textOffset: number | null; progression: number | null };
+export type Axis = "x" | "y";
+
+/**
+ * 阅读视口。一般就是 iframe 自己的滚动视口；连续滚动时 iframe 撑满整章、由外层容器滚动，
+ * 视口是容器可见的那一块。left/top/width/height 用 iframe 文档的视口坐标，
+ * pos / max 是沿阅读方向已经滚过的距离和最多能滚的距离。
+ */
+export type Viewport = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  pos: number;
+  max: number;
+  scrollBy(dx: number, dy: number): void;
+};
+
+export function scrollElOf(doc: Document) {
+  return (doc.scrollingElement || doc.documentElement || doc.body) as HTMLElement;
+}
+
+/** iframe 自己滚动时的视口。vertical-rl 下 scrollLeft 从 0 向负数增长 */
+export function docViewport(doc: Document, axis: Axis): Viewport {
+  const se = scrollElOf(doc);
+  return {
+    left: 0,
+    top: 0,
+    width: doc.documentElement.clientWidth,
+    height: doc.documentElement.clientHeight,
+    pos: axis === "x" ? Math.abs(se.scrollLeft) : se.scrollTop,
+    max: axis === "x" ? se.scrollWidth - se.clientWidth : se.scrollHeight - se.clientHeight,
+    scrollBy(dx, dy) {
+      se.scrollLeft += dx;
+      se.scrollTop += dy;
+    },
+  };
+}
+
+export function viewportProgression(vp: Viewport) {
+  if (vp.max <= 0) return 0;
+  return Math.min(1, Math.max(0, vp.pos / vp.max));
+}
+
+function setProgression(doc: Document, vp: Viewport, axis: Axis, p: number) {
+  const delta = vp.max * p - vp.pos;
+  if (axis === "y") vp.scrollBy(0, delta);
+  // vertical-rl 往左读，滚动原点在右侧
+  else vp.scrollBy(isVerticalRl(doc) ? -delta : delta, 0);
+}
+
+function isVerticalRl(doc: Document) {
+  return !!doc.body && getComputedStyle(doc.body).writingMode.startsWith("vertical-rl");
+}
+
+/** 找视口起始角（横排左上、竖排右上）处的第一个可见字符 */
+function firstVisibleOffset(doc: Document, axis: Axis, vp: Viewport) {
+  if (!doc.body) return null;
+  const index = buildTextIndex(doc.body);
+  if (!index.text.trim()) return null;
+  const right = vp.left + vp.width;
+  const bottom = vp.top + vp.height;
+  const caret = isVerticalRl(doc) ? caretAt(doc, right - 24, vp.top + 24) : caretAt(doc, vp.left + 24, vp.top + 24);
+  if (caret && caret.node.nodeType === Node.TEXT_NODE) return textOffsetOf(index, caret.node, caret.offset);
+
+  // Caret APIs miss on margins/images: scan for the first text node that intersects the viewport
+  const range = doc.createRange();
+  for (let i = 0; i < index.nodes.length; i++) {
+    const t = index.nodes[i]!;
+    if (!t.data.trim()) continue;
+    range.selectNodeContents(t);
+    const r = range.getBoundingClientRect();
+    const visible = axis === "x" ? r.left < right && r.right > vp.left : r.top < bottom && r.bottom > vp.top;
+    if (visible) return index.starts[i]!;
+  }
+  return null;
+}
+
+export function captureLocator(doc: Document, axis: Axis, vp = docViewport(doc, axis)): Locator {
+  return {
+    textOffset: firstVisibleOffset(doc, axis, vp),
+    progression: Math.round(viewportProgression(vp) * 10000) / 10000,
+  };
+}
+
+/** 把定位还原成滚动位置；都还原不了时返回 false，由调用方用像素兜底 */
+export function restoreLocator(doc: Document, axis: Axis, loc: Partial<Locator>, vp = docViewport(doc, axis)) {
+  if (loc.textOffset != null && doc.body) {
+    const index = buildTextIndex(doc.body);
+    const range = rangeFromOffsets(index, loc.textOffset, Math.min(loc.textOffset + 1, index.text.length));
+    const r = range?.getBoundingClientRect();
+    if (r && (r.width || r.height)) {
+      if (axis === "y") vp.scrollBy(0, r.top - vp.top - 16);
+      else if (isVerticalRl(doc)) vp.scrollBy(r.right - (vp.left + vp.width) + 16, 0);
+      else vp.scrollBy(r.left - vp.left - 16, 0);
+      return true;
+    }
+  }
+  if (loc.progression != null) {
+    setProgression(doc, vp, axis, loc.progression);
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,179 @@
+import { resourceUrl, type OverlayClip } from "./api";
+
+// 有声朗读（EPUB3 Media Overlays）：按 SMIL 的顺序播放各段音频，正在读的元素加上 media:active-class。
+// 高亮跟着音频时间走：播放时每帧看 currentTime 落在哪一段；一段放完后面是空白或换了音频文件时跳到下一段，
+// 所以拖动进度条也能对上。一章放完交给阅读器翻到下一章。
+
+/** 书里没写 media:active-class 时用的 class（规范里的默认名），阅读器给它一个默认样式 */
+export const DEFAULT_ACTIVE_CLASS = "-epub-media-overlay-active";
+
+export type OverlayState = {
+  /** 正在朗读的 spine 文档 */
+  index: number;
+  playing: boolean;
+  /** 当前音频文件里的位置和长度（秒） */
+  time: number;
+  duration: number;
+};
+
+export function createOverlayPlayer(opts: {
+  bookId: string;
+  clipsOf: (index: number) => OverlayClip[] | null;
+  /** 这个 spine 文档正显示着时返回它的 document，没显示或还在加载时返回 null */
+  docOf: (index: number) => Document | null;
+  activeClass: string;
+  playbackActiveClass?: string;
+  /** 换到新的一段：把元素滚进视野 */
+  reveal: (el: Element) => void;
+  /** 这一章的朗读放完了 */
+  onEnd: (index: number) => void;
+  onState: (state: OverlayState) => void;
+}) {
+  const audio = new Audio();
+  audio.preload = "auto";
+
+  let index = -1;
+  let clips: OverlayClip[] = [];
+  let at = -1;
+  /** 当前音频（书里的路径） */
+  let src = "";
+  let active: Element | null = null;
+  let activeDoc: Document | null = null;
+  let frame = 0;
+
+  function report() {
+    opts.onState({
+      index,
+      playing: !audio.paused,
+      time: audio.currentTime,
+      duration: Number.isFinite(audio.duration) ? audio.duration : 0,
+    });
+  }
+
+  function clearActive() {
+    active?.classList.remove(opts.activeClass);
+    if (opts.playbackActiveClass) activeDoc?.documentElement.classList.remove(opts.playbackActiveClass);
+    active = null;
+    activeDoc = null;
+  }
+
+  /** 给当前这段的元素加 class；文档换了（翻章、重新加载）时重新找 */
+  function highlight() {
+    const doc = opts.docOf(index);
+    const fragment = clips[at]?.fragment;
+    const el = doc && fragment ? doc.getElementById(fragment) : null;
+    if (doc === activeDoc && el === active) return;
+    clearActive();
+    if (!doc) return;
+    activeDoc = doc;
+    if (opts.playbackActiveClass && !audio.paused) doc.documentElement.classList.add(opts.playbackActiveClass);
+    if (!el) return;
+    el.classList.add(opts.activeClass);
+    active = el;
+    opts.reveal(el);
+  }
+
+  function useClip(n: number, seek: boolean) {
+    at = n;
+    const clip = clips[n]!;
+    if (clip.audio !== src) {
+      src = clip.audio;
+      audio.src = resourceUrl(opts.bookId, src);
+      seek = true;
+    }
+    if (seek) audio.currentTime = clip.begin;
+    highlight();
+  }
+
+  /** 同一个音频文件里包含时间 t 的那段 */
+  function clipAt(t: number) {
+    return clips.findIndex((c) => c.audio === src && t >= c.begin && (c.end == null || t < c.end));
+  }
+
+  /** 这段放完：接着下一段，没有了就是这一章读完 */
+  function advance() {
+    if (at + 1 < clips.length) {
+      useClip(at + 1, true);
+      return;
+    }
+    audio.pause();
+    clearActive();
+    opts.onEnd(index);
+  }
+
+  function tick() {
+    frame = 0;
+    const clip = clips[at];
+    const t = audio.currentTime;
+    if (clip && clip.audio === src && t >= clip.begin - 0.05 && (clip.end == null || t < clip.end)) {
+      highlight();
+    } else {
+      const hit = clipAt(t);
+      if (hit >= 0) useClip(hit, false);
+      else if (clip?.end != null && t >= clip.end) advance();
+    }
+    report();
+    if (!audio.paused) frame = requestAnimationFrame(tick);
+  }
+
+  audio.addEventListener("play", () => {
+    if (opts.playbackActiveClass) activeDoc?.documentElement.classList.add(opts.playbackActiveClass);
+    frame ||= requestAnimationFrame(tick);
+    report();
+  });
+  audio.addEventListener("pause", () => {
+    if (opts.playbackActiveClass) activeDoc?.documentElement.classList.remove(opts.playbackActiveClass);
+    report();
+  });
+  audio.addEventListener("loadedmetadata", report);
+  // 音频文件放到头（最后一段没写 clipEnd）
+  audio.addEventListener("ended", () => {
+    if (index >= 0) advance();
+  });
+
+  function play() {
+    audio.play().catch(() => report());
+  }
+
+  return {
+    /** 从第 index 个 spine 文档的第 from 段开始放；这个文档没有朗读时返回 false */
+    start(i: number, from = 0) {
+      const list = opts.clipsOf(i);
+      if (!list?.length) return false;
+      clearActive();
+      index = i;
+      clips = list;
+      useClip(Math.min(Math.max(from, 0), list.length - 1), true);
+      play();
+      return true;
+    },
+    index: () => index,
+    playing: () => !audio.paused,
+    pause: () => audio.pause(),
+    resume() {
+      if (index >= 0) play();
+    },
+    /** 拖动进度条：当前音频文件里的秒数 */
+    seek(t: number) {
+      if (index < 0) return;
+      audio.currentTime = t;
+      const hit = clipAt(t);
+      // 落在两段之间时等到后面那段开始；后面没有了就停在这个文件的最后一段，tick 会接着往下走
+      let n = hit >= 0 ? hit : clips.findIndex((c) => c.audio === src && c.begin >= t);
+      if (n < 0) n = clips.map((c) => c.audio).lastIndexOf(src);
+      if (n < 0) return;
+      at = n;
+      highlight();
+      report();
+    },
+    destroy() {
+      audio.pause();
+      cancelAnimationFrame(frame);
+      clearActive();
+      audio.removeAttribute("src");
+      audio.load();
+    },
+  };
+}
+
+export type OverlayPlayer = ReturnType<typeof createOverlayPlayer>;
@@ -0,0 +1,73 @@
+import { textNodes } from "./dom";
+
+// ruby（振り仮名）的显示控制和自动注音。自动注音只改 iframe 里的 DOM，不动书的文件；
+// 插入的 <rt> 和书里原有的一样被 textNodes 跳过，所以文本偏移（高亮、进度、生词）不受影响。
+
+export type RubyMode = "show" | "hide" | "hover" | "level";
+export type FuriganaSpan = { start: number; end: number; reading: string };
+
+const KANJI = "\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff々〆ヵヶ";
+const KANJI_RE = new RegExp(`[${KANJI}]`);
+const KANJI_ALL_RE = new RegExp(`[${KANJI}]`, "g");
+
+export function rubyCss(mode: RubyMode) {
+  switch (mode) {
+    case "hide":
+      return "rt, rp { display: none !important; }";
+    case "hover":
+      // visibility 而不是 display，悬停时不会引起重排
+      return "ruby rt { visibility: hidden; } ruby:hover rt { visibility: visible; }";
+    case "level":
+      return "ruby.nr-ruby-known rt, ruby.nr-ruby-known rp { display: none; }";
+    default:
+      return "";
+  }
+}
+
+function baseText(ruby: Element) {
+  return textNodes(ruby)
+    .map((t) => t.data)
+    .join("");
+}
+
+/** 标出“所有汉字都在已掌握范围内”的 ruby（level 模式下隐藏它们的注音）；没有汉字的 ruby 一律显示 */
+export function classifyRuby(doc: Document, known: Set<string>) {
+  doc.querySelectorAll("ruby").forEach((ruby) => {
+    const kanji = baseText(ruby).match(KANJI_ALL_RE) ?? [];
+    ruby.classList.toggle("nr-ruby-known", kanji.length > 0 && kanji.every((k) => known.has(k)));
+  });
+}
+
+/** 需要自动注音的文本节点：书里已经有 ruby 的部分不再重复注音 */
+export function furiganaTargets(doc: Document) {
+  if (!doc.body) return [];
+  return textNodes(doc.body).filter((t) => !t.parentElement?.closest("ruby") && KANJI_RE.test(t.data));
+}
+
+/** 按偏移把文本节点里的汉字段包成 <ruby class="nr-furigana">；从后往前处理，前面的偏移不受影响 */
+export function applyFurigana(node: Text, spans: FuriganaSpan[]) {
+  const doc = node.ownerDocument;
+  const sorted = [...spans].sort((a, b) => b.start - a.start);
+  for (const s of sorted) {
+    if (s.start < 0 || s.end > node.data.length || s.end <= s.start) continue;
+    const base = node.splitText(s.start);
+    base.splitText(s.end - s.start);
+    const ruby = doc.createElement("ruby");
+    ruby.className = "nr-furigana";
+    const rt = doc.createElement("rt");
+    rt.textContent = s.reading;
+    base.parentNode?.insertBefore(ruby, base);
+    ruby.append(base, rt);
+  }
+}
+
+export function removeFurigana(doc: Document) {
+  doc.querySelectorAll("ruby.nr-furigana").forEach((ruby) => {
+    const parent = ruby.parentNode;
+    if (!parent) return;
+    ruby.querySelectorAll("rt").forEach((rt) => rt.remove());
+    while (ruby.firstChild) parent.insertBefore(ruby.firstChild, ruby);
+    parent.removeChild(ruby);
+    parent.normalize();
+  });
+}
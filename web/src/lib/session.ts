@@ -0,0 +1,111 @@
+import { saveSession, type ReadingPosition } from "./api";
+
+// 阅读会话记录。只在页面可见、且最近 IDLE_MS 内有操作（滚动、翻页、鼠标、按键）时计时；
+// 闲置超过 IDLE_MS 结束当前会话，下次有操作时开始新会话。进行中的会话定时上报，离开页面时再报一次。
+
+const IDLE_MS = 2 * 60_000;
+const TICK_MS = 5_000;
+const FLUSH_MS = 60_000;
+/** 短于这个时间的会话（开了就关）不记录 */
+const MIN_ACTIVE_MS = 15_000;
+
+type Current = {
+  clientId: string;
+  startedAt: number;
+  endedAt: number;
+  activeMs: number;
+  startChars: number | null;
+  startProgression: number | null;
+};
+
+export function createSessionTracker(opts: {
+  bookId: string;
+  /** 最近一次进度保存后服务器返回的位置 */
+  position: () => ReadingPosition | null;
+  chapter: () => { href: string; title: string | null } | null;
+}) {
+  let current: Current | null = null;
+  let lastActivity = 0;
+  let lastFlush = 0;
+  let timer: number | null = null;
+
+  function start(now: number) {
+    const pos = opts.position();
+    current = {
+      // crypto.randomUUID 只在 https / localhost 下可用，局域网访问时没有
+      clientId: `${now.toString(36)}-${Math.random().toString(36).slice(2, 12)}`,
+      startedAt: now,
+      endedAt: now,
+      activeMs: 0,
+      startChars: pos?.readChars ?? null,
+      startProgression: pos?.bookProgression ?? null,
+    };
+    lastFlush = now;
+  }
+
+  function flush() {
+    const s = current;
+    const chapter = opts.chapter();
+    if (!s || !chapter || s.activeMs < MIN_ACTIVE_MS) return;
+    const pos = opts.position();
+    // 开始时还没有位置（刚打开书）的话，以第一次拿到的位置为起点
+    if (s.startChars == null && pos) {
+      s.startChars = pos.readChars;
+      s.startProgression = pos.bookProgression;
+    }
+    saveSession(opts.bookId, {
+      clientId: s.clientId,
+      href: chapter.href,
+      chapterTitle: chapter.title,
+      startedAt: s.startedAt,
+      endedAt: s.endedAt,
+      activeMs: s.activeMs,
+      chars: pos && s.startChars != null ? Math.max(0, pos.readChars - s.startChars) : 0,
+      startProgression: s.startProgression,
+      endProgression: pos?.bookProgression ?? null,
+    }).catch(() => {});
+  }
+
+  function tick() {
+    const now = Date.now();
+    if (!current) return;
+    if (now - lastActivity > IDLE_MS) {
+      flush();
+      current = null;
+      return;
+    }
+    if (document.visibilityState === "visible") {
+      current.activeMs += TICK_MS;
+      current.endedAt = now;
+    }
+    if (now - lastFlush >= FLUSH_MS) {
+      lastFlush = now;
+      flush();
+    }
+  }
+
+  function activity() {
+    const now = Date.now();
+    lastActivity = now;
+    if (!current) start(now);
+  }
+
+  function onVisibility() {
+    if (document.visibilityState === "hidden") flush();
+  }
+
+  timer = window.setInterval(tick, TICK_MS);
+  document.addEventListener("visibilitychange", onVisibility);
+  window.addEventListener("pagehide", flush);
+
+  return {
+    activity,
+    stop() {
+      flush();
+      current = null;
+      if (timer) window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("pagehide", flush);
+    },
+  };
+}
@@ -0,0 +1,218 @@
+import { resourceUrl } from "./api";
+import type { Axis, Viewport } from "./locator";
+
+// 连续滚动：相邻的 spine 文档各用一个 iframe，沿阅读方向排成一条（横排从上往下，竖排从右往左），
+// 由外层容器滚动。iframe 撑满整章、自己不滚动；视口靠近两端时加载前后章，离当前章超过 KEEP 章的卸载。
+// 当前章是视口起点（横排上沿、竖排右沿）所在的那一章。
+
+/** 离两端不到这么多个视口时加载下一章 / 上一章 */
+const LOAD_AHEAD = 1.5;
+/** 当前章前后各最多留几章 */
+const KEEP = 2;
+
+export type StripFrame = {
+  index: number;
+  href: string;
+  iframe: HTMLIFrameElement;
+  loaded: boolean;
+  /** 沿滚动方向的大小（px） */
+  extent: number;
+  observer: ResizeObserver | null;
+};
+
+export function createChapterStrip(opts: {
+  host: HTMLElement;
+  bookId: string;
+  /** x：竖排（vertical-rl），y：横排 */
+  axis: Axis;
+  hrefOf: (index: number) => string | undefined;
+  /** 下一个 / 上一个要显示的 spine 文档；没有了返回 -1 */
+  neighbour: (index: number, dir: 1 | -1) => number;
+  /** 文档加载完、量尺寸之前：注入样式、挂事件 */
+  prepare: (frame: StripFrame) => void;
+  /** 量好尺寸之后：可以定位了 */
+  ready: (frame: StripFrame) => void;
+  /** 视口起点换到了另一章 */
+  onCurrent: (frame: StripFrame) => void;
+  onScroll: () => void;
+}) {
+  const { axis } = opts;
+  const scroller = document.createElement("div");
+  scroller.style.cssText =
+    axis === "x"
+      ? "display:flex;direction:rtl;width:100%;height:100%;overflow-x:auto;overflow-y:hidden;overflow-anchor:none;"
+      : "width:100%;height:100%;overflow-x:hidden;overflow-y:auto;overflow-anchor:none;";
+  opts.host.appendChild(scroller);
+
+  let frames: StripFrame[] = [];
+  let current: StripFrame | null = null;
+
+  const viewSize = () => (axis === "x" ? scroller.clientWidth : scroller.clientHeight);
+
+  /** 当前章之前的章变大变小时，把滚动位置挪回来，眼前的文字不动 */
+  function shiftBefore(delta: number) {
+    if (axis === "x") scroller.scrollLeft -= delta;
+    else scroller.scrollTop += delta;
+  }
+
+  function setExtent(frame: StripFrame, extent: number) {
+    const delta = extent - frame.extent;
+    if (!delta) return;
+    frame.extent = extent;
+    if (axis === "x") frame.iframe.style.width = `${extent}px`;
+    else frame.iframe.style.height = `${extent}px`;
+    if (current && frame.index < current.index) shiftBefore(delta);
+  }
+
+  function measure(frame: StripFrame) {
+    const body = frame.iframe.contentDocument?.body;
+    if (!body) return;
+    const r = body.getBoundingClientRect();
+    setExtent(frame, Math.max(1, Math.ceil(axis === "x" ? r.width : r.height)));
+  }
+
+  function createFrame(index: number, where: "start" | "end") {
+    const iframe = document.createElement("iframe");
+    iframe.style.cssText =
+      axis === "x" ? "flex:none;display:block;border:0;height:100%;width:0;" : "display:block;border:0;width:100%;height:0;";
+    const frame: StripFrame = { index, href: opts.hrefOf(index) ?? "", iframe, loaded: false, extent: 0, observer: null };
+    iframe.addEventListener("load", () => {
+      const doc = iframe.contentDocument;
+      if (!doc?.body || !frames.includes(frame)) return;
+      frame.loaded = true;
+      opts.prepare(frame);
+      measure(frame);
+      // 图片加载、注音等会改变章节长度
+      const RO = (doc.defaultView as (Window & typeof globalThis) | null)?.ResizeObserver;
+      if (RO) {
+        frame.observer = new RO(() => measure(frame));
+        frame.observer.observe(doc.body);
+      }
+      opts.ready(frame);
+      check();
+    });
+    if (where === "start") {
+      frames.unshift(frame);
+      scroller.prepend(iframe);
+    } else {
+      frames.push(frame);
+      scroller.append(iframe);
+    }
+    // 先占一屏，免得百分比尺寸的图片在 0 宽 / 0 高的 iframe 里排版
+    setExtent(frame, viewSize());
+    iframe.src = resourceUrl(opts.bookId, frame.href);
+    return frame;
+  }
+
+  function removeFrame(frame: StripFrame) {
+    frame.observer?.disconnect();
+    const before = current != null && frame.index < current.index;
+    frame.iframe.remove();
+    frames = frames.filter((f) => f !== frame);
+    if (before) shiftBefore(-frame.extent);
+  }
+
+  function updateCurrent() {
+    const sr = scroller.getBoundingClientRect();
+    const frame = frames.find((f) => {
+      if (!f.loaded) return false;
+      const r = f.iframe.getBoundingClientRect();
+      return axis === "x" ? r.left < sr.right - 1 && r.right >= sr.right - 1 : r.top <= sr.top + 1 && r.bottom > sr.top + 1;
+    });
+    if (frame && frame !== current) {
+      current = frame;
+      opts.onCurrent(frame);
+    }
+  }
+
+  /** 加载 / 卸载前后章，并更新当前章 */
+  function check() {
+    updateCurrent();
+    if (!current) return;
+    const size = viewSize();
+    const scrolled = axis === "x" ? Math.abs(scroller.scrollLeft) : scroller.scrollTop;
+    const total = axis === "x" ? scroller.scrollWidth : scroller.scrollHeight;
+    const at = frames.indexOf(current);
+    const first = frames[0]!;
+    const last = frames[frames.length - 1]!;
+    if (total - scrolled - size < size * LOAD_AHEAD && last.loaded && frames.length - 1 - at < KEEP) {
+      const next = opts.neighbour(last.index, 1);
+      if (next >= 0) createFrame(next, "end");
+    }
+    if (scrolled < size * LOAD_AHEAD && first.loaded && at < KEEP) {
+      const prev = opts.neighbour(first.index, -1);
+      if (prev >= 0) createFrame(prev, "start");
+    }
+    while (frames.indexOf(current) > KEEP) removeFrame(frames[0]!);
+    while (frames.length - 1 - frames.indexOf(current) > KEEP) removeFrame(frames[frames.length - 1]!);
+  }
+
+  scroller.addEventListener(
+    "scroll",
+    () => {
+      check();
+      opts.onScroll();
+    },
+    { passive: true }
+  );
+
+  return {
+    axis,
+    /** 清空后从 index 这一章开始 */
+    open(index: number) {
+      current = null;
+      for (const f of frames) removeFrame(f);
+      scroller.scrollTop = 0;
+      scroller.scrollLeft = 0;
+      current = createFrame(index, "end");
+      return current;
+    },
+    frames: () => frames,
+    frameOf(doc: Document) {
+      return frames.find((f) => f.iframe.contentDocument === doc) ?? null;
+    },
+    /** 用户在另一章里点选时，把它当成当前章 */
+    activate(frame: StripFrame) {
+      if (frame === current || !frames.includes(frame)) return;
+      current = frame;
+      opts.onCurrent(frame);
+    },
+    measure,
+    /** 视口在这一章 iframe 里的位置 */
+    viewport(frame: StripFrame): Viewport {
+      const sr = scroller.getBoundingClientRect();
+      const fr = frame.iframe.getBoundingClientRect();
+      const width = scroller.clientWidth;
+      const height = scroller.clientHeight;
+      return {
+        left: sr.left - fr.left,
+        top: sr.top - fr.top,
+        width,
+        height,
+        // 竖排从右边读起
+        pos: axis === "x" ? fr.right - sr.right : sr.top - fr.top,
+        max: axis === "x" ? fr.width - width : fr.height - height,
+        scrollBy(dx, dy) {
+          scroller.scrollLeft += dx;
+          scroller.scrollTop += dy;
+        },
+      };
+    },
+    scrollBy(options: ScrollToOptions) {
+      scroller.scrollBy(options);
+    },
+    /** 翻一屏，方向和单章滚动时一样（竖排向右为正） */
+    step(dir: 1 | -1) {
+      if (axis === "x") scroller.scrollBy({ left: dir * scroller.clientWidth, behavior: "smooth" });
+      else scroller.scrollBy({ top: dir * scroller.clientHeight, behavior: "smooth" });
+    },
+    destroy() {
+      for (const f of frames) f.observer?.disconnect();
+      frames = [];
+      current = null;
+      scroller.remove();
+    },
+  };
+}
+
+export type ChapterStrip = ReturnType<typeof createChapterStrip>;
@@ -0,0 +1,236 @@
+import { getSettings, listThemes, type CustomTheme } from "./api";
+
+// 配色方案。界面（书库、阅读器边栏等）用 :root 上的 CSS 变量；书的正文在 iframe 里，
+// 由 bookThemeCss 生成实际颜色拼进注入的样式。
+
+export type ChromeVar =
+  | "bg"
+  | "text"
+  | "surface"
+  | "surface-alt"
+  | "page"
+  | "border"
+  | "border-soft"
+  | "button"
+  | "button-active"
+  | "accent"
+  | "danger"
+  | "ok-bg"
+  | "error-bg"
+  | "cover-from"
+  | "cover-to"
+  | "shadow";
+
+export type Theme = CustomTheme & {
+  dark: boolean;
+  /** 内置方案有手调的界面配色；自定义方案由背景色和文字色推算 */
+  chrome?: Record<ChromeVar, string>;
+};
+
+export const BUILTIN_THEMES: Theme[] = [
+  {
+    id: "light",
+    name: "Light",
+    background: "#ffffff",
+    text: "#121212",
+    link: "#1a55b0",
+    selection: "#b4d5fe",
+    dark: false,
+    chrome: {
+      bg: "#fbf7f1",
+      text: "#1f1b16",
+      surface: "#fffdf9",
+      "surface-alt": "#f7f1e8",
+      page: "#ffffff",
+      border: "#d9c9b1",
+      "border-soft": "#eadfce",
+      button: "#f2e6d6",
+      "button-active": "#f0e0c9",
+      accent: "#c9a878",
+      danger: "#b00",
+      "ok-bg": "#dcebd2",
+      "error-bg": "#f3d0c8",
+      "cover-from": "#f1e2c9",
+      "cover-to": "#e9d3b0",
+      shadow: "rgba(35, 25, 15, 0.18)",
+    },
+  },
+  {
+    id: "sepia",
+    name: "Sepia",
+    background: "#f4ecd8",
+    text: "#5b4636",
+    link: "#8a5a2b",
+    selection: "#e0c9a0",
+    dark: false,
+    chrome: {
+      bg: "#efe4cc",
+      text: "#4a3a2a",
+      surface: "#f6eedb",
+      "surface-alt": "#eadcc0",
+      page: "#f4ecd8",
+      border: "#cdb48e",
+      "border-soft": "#dfcdaa",
+      button: "#e6d5b5",
+      "button-active": "#dcc7a0",
+      accent: "#a67c45",
+      danger: "#a02010",
+      "ok-bg": "#d5dfbf",
+      "error-bg": "#ecc4b4",
+      "cover-from": "#e3cfa8",
+      "cover-to": "#d8bf92",
+      shadow: "rgba(60, 40, 20, 0.2)",
+    },
+  },
+  {
+    id: "dark",
+    name: "Dark",
+    background: "#1e1e1e",
+    text: "#d8d4cc",
+    link: "#8ab4f8",
+    selection: "#3a4f7a",
+    dark: true,
+    chrome: {
+      bg: "#171717",
+      text: "#e4e0d8",
+      surface: "#222222",
+      "surface-alt": "#1c1c1c",
+      page: "#1e1e1e",
+      border: "#3f3a33",
+      "border-soft": "#2e2b27",
+      button: "#2c2925",
+      "button-active": "#3a352e",
+      accent: "#b08d57",
+      danger: "#ff7b72",
+      "ok-bg": "#23402a",
+      "error-bg": "#4a2520",
+      "cover-from": "#2e2a24",
+      "cover-to": "#3a342b",
+      shadow: "rgba(0, 0, 0, 0.5)",
+    },
+  },
+  {
+    id: "black",
+    name: "Black",
+    background: "#000000",
+    text: "#c8c8c8",
+    link: "#7aa7e8",
+    selection: "#333f5c",
+    dark: true,
+    chrome: {
+      bg: "#000000",
+      text: "#d0d0d0",
+      surface: "#0b0b0b",
+      "surface-alt": "#050505",
+      page: "#000000",
+      border: "#333333",
+      "border-soft": "#1f1f1f",
+      button: "#141414",
+      "button-active": "#262626",
+      accent: "#8f7a55",
+      danger: "#ff7b72",
+      "ok-bg": "#16301c",
+      "error-bg": "#3a1a16",
+      "cover-from": "#151515",
+      "cover-to": "#1f1f1f",
+      shadow: "rgba(0, 0, 0, 0.7)",
+    },
+  },
+];
+
+const STORAGE_KEY = "theme";
+
+/** 相对亮度低于一半算深色（决定 color-scheme、图片反色等） */
+export function isDarkColor(hex: string) {
+  const n = parseInt(hex.slice(1), 16);
+  const [r, g, b] = [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b < 128;
+}
+
+export function themeFromCustom(t: CustomTheme): Theme {
+  return { ...t, dark: isDarkColor(t.background) };
+}
+
+/** 找不到（比如自定义方案被删了）时退回 light */
+export function resolveTheme(id: string, custom: CustomTheme[]): Theme {
+  const builtIn = BUILTIN_THEMES.find((t) => t.id === id);
+  if (builtIn) return builtIn;
+  const c = custom.find((t) => t.id === id);
+  return c ? themeFromCustom(c) : BUILTIN_THEMES[0]!;
+}
+
+export function chromeVars(theme: Theme): Record<ChromeVar, string> {
+  if (theme.chrome) return theme.chrome;
+  const bg = theme.background;
+  const mix = (pct: number, other = theme.text) => `color-mix(in srgb, ${bg} ${pct}%, ${other})`;
+  return {
+    bg: mix(96),
+    text: theme.text,
+    surface: bg,
+    "surface-alt": mix(93),
+    page: bg,
+    border: mix(70),
+    "border-soft": mix(85),
+    button: mix(88),
+    "button-active": mix(80),
+    accent: theme.link,
+    danger: theme.dark ? "#ff7b72" : "#b00",
+    "ok-bg": mix(75, "#3c9a4c"),
+    "error-bg": mix(75, "#d0503c"),
+    "cover-from": mix(88),
+    "cover-to": mix(80),
+    shadow: theme.dark ? "rgba(0, 0, 0, 0.5)" : "rgba(35, 25, 15, 0.18)",
+  };
+}
+
+/** 写到 :root 上，并记在 localStorage 里，下次打开页面时在请求设置之前就能用上，避免闪白 */
+export function applyTheme(theme: Theme) {
+  const root = document.documentElement;
+  const vars = chromeVars(theme);
+  for (const [k, v] of Object.entries(vars)) root.style.setProperty(`--${k}`, v);
+  root.style.colorScheme = theme.dark ? "dark" : "light";
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ vars, dark: theme.dark }));
+}
+
+export function restoreTheme() {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as {
+      vars: Record<string, string>;
+      dark: boolean;
+    } | null;
+    if (!saved) return;
+    const root = document.documentElement;
+    for (const [k, v] of Object.entries(saved.vars)) root.style.setProperty(`--${k}`, v);
+    root.style.colorScheme = saved.dark ? "dark" : "light";
+  } catch {
+    // 存的内容坏了就用 style.css 里的默认配色
+  }
+}
+
+/** 书库等页面用全局设置里的方案 */
+export async function loadGlobalTheme() {
+  const [settings, custom] = await Promise.all([getSettings(), listThemes()]);
+  const theme = resolveTheme(settings.theme, custom);
+  applyTheme(theme);
+  return theme;
+}
+
+/**
+ * 注入书里的配色。light 保留书自己的颜色；其他方案强制覆盖文字和背景色，
+ * 否则写死了黑字白底的书在深色下没法读。高亮等 mark 不覆盖。
+ */
+export function bookThemeCss(theme: Theme, invertImages: boolean) {
+  const selection = `::selection { background: ${theme.selection}; }`;
+  if (theme.id === "light") {
+    return `html { background: ${theme.background}; } body { color: ${theme.text}; } ${selection}`;
+  }
+  return `
+    html, body { background: ${theme.background} !important; }
+    body { color: ${theme.text} !important; }
+    body *:not(mark) { color: inherit !important; background-color: transparent !important; border-color: currentColor !important; }
+    body a:link, body a:visited, body a * { color: ${theme.link} !important; }
+    ${selection}
+    ${theme.dark ? "mark.nr-search { background: rgba(255, 200, 0, 0.4); }" : ""}
+    ${theme.dark && invertImages ? "img, svg image { filter: invert(1) hue-rotate(180deg); }" : ""}
+  `;
+}
@@ -1,5 +1,8 @@
 import { createApp } from 'vue'
 import './style.css'
 import App from './App.vue'
+import { restoreTheme } from './lib/theme'
+
+restoreTheme()
 
 createApp(App).mount('#app')
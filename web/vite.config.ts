@@ -6,7 +6,8 @@ export default defineConfig({
   server: {
     proxy: {
       // 前端请求 /api 会转发到后端 8787
-      '/api': 'http://127.0.0.1:8787'
+      '/api': 'http://127.0.0.1:8787',
+      '/opds': 'http://127.0.0.1:8787'
     }
   }
 })